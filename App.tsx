@@ -1,215 +1,643 @@
 import React, { useState, useCallback, useEffect, useRef } from 'react';
 import FileDropzone from './components/FileDropzone';
 import PdfEditor from './components/PdfEditor';
-import { DownloadIcon, SettingsIcon } from './components/Icons';
+import { DownloadIcon, SettingsIcon, SignatureIcon, TextIcon } from './components/Icons';
 import SettingsMenu from './components/SettingsMenu';
-import { useSettings } from './contexts/SettingsContext';
-
-
-// pdf-lib is loaded from CDN and available as a global
-declare const PDFLib: any;
-
-interface ImageState {
-  file: File | null;
-  position: { x: number; y: number };
-  size: { width: number; height: number };
-  objectUrl: string | null;
-}
-
-const initialImageState: ImageState = {
-  file: null,
-  position: { x: 50, y: 50 },
-  size: { width: 150, height: 100 },
-  objectUrl: null,
-};
-
-/**
- * Processes an image file to make its white background transparent.
- * @param imageFile The image file to process.
- * @returns A Promise that resolves with a Blob of the new PNG image.
- */
-const removeWhiteBackground = (imageFile: File): Promise<Blob> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      const img = new Image();
-      img.onload = () => {
-        const canvas = document.createElement('canvas');
-        canvas.width = img.width;
-        canvas.height = img.height;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return reject(new Error('Could not get canvas context'));
-
-        ctx.drawImage(img, 0, 0);
-        const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-        const data = imageData.data;
-        const threshold = 240; // Pixels with R,G,B values all above this will be transparent
-        for (let i = 0; i < data.length; i += 4) {
-          const r = data[i];
-          const g = data[i + 1];
-          const b = data[i + 2];
-          if (r > threshold && g > threshold && b > threshold) {
-            data[i + 3] = 0; // Make pixel transparent
-          }
-        }
-        ctx.putImageData(imageData, 0, 0);
-
-        canvas.toBlob((blob) => {
-          if (blob) resolve(blob);
-          else reject(new Error('Canvas to Blob conversion failed'));
-        }, 'image/png'); // Always output as PNG to support transparency
-      };
-      img.onerror = (e) => reject(e);
-      if (event.target?.result) {
-        img.src = event.target.result as string;
-      } else {
-        reject(new Error('FileReader did not return a result'));
-      }
-    };
-    reader.onerror = (e) => reject(e);
-    reader.readAsDataURL(imageFile);
-  });
+import { TranslationKey, useSettings } from './contexts/SettingsContext';
+import BatchPanel from './components/BatchPanel';
+import SignaturePadModal from './components/SignaturePadModal';
+import StampLibraryPanel from './components/StampLibraryPanel';
+import BackgroundRemovalDialog from './components/BackgroundRemovalDialog';
+import EncryptionOptions from './components/EncryptionOptions';
+import StampOutputOptions from './components/StampOutputOptions';
+import DigitalSignaturePanel from './components/DigitalSignaturePanel';
+import ImagePageSettings from './components/ImagePageSettings';
+import PageNumberingOptions from './components/PageNumberingOptions';
+import CodeGeneratorPanel from './components/CodeGeneratorPanel';
+import { BackgroundRemovalSettings, BatchItem, DrawingLayer, ImagePageOptions, Layer, LayerChanges, LibraryStamp, OrganizedPage, OutputEncryption, PageNumbering, PageOrganization, PageSelection, PdfProtection, PlacementAnchor, Point, SignatureStroke, Size, StampOutput, TextLayer, VectorShape } from './types';
+import { StampError, StampOptions, getPageSizes, stampPdf } from './utils/mergePdf';
+import { SigningCredentials, readCredentials, signPdf } from './utils/pdfSigning';
+import { combineDocuments } from './utils/combinePdf';
+import { DEFAULT_PAGE_NUMBERING, NUMBERING_FONT, countNumberedPages } from './utils/pageNumbering';
+import { ZipEntry, createZip } from './utils/zip';
+import { downloadBlob } from './utils/download';
+import { fitToSide, readImageInfo } from './utils/imageInfo';
+import { ensureFontLoaded } from './utils/fonts';
+import { applyLayerChanges, fitTextLayer, replaceLayer, resizeLayer } from './utils/layers';
+import useHistory from './hooks/useHistory';
+import { getStamp } from './utils/stampLibrary';
+import { DEFAULT_BACKGROUND_REMOVAL, removeBackground } from './utils/backgroundRemoval';
+import { IMAGE_ACCEPT, convertToEmbeddable, getImageFormat } from './utils/imageFormats';
+import { parseSvg } from './utils/svgVector';
+
+
+const DEFAULT_LAYER_POSITION: Point = { x: 50, y: 50 };
+const DEFAULT_LAYER_MAX_SIDE = 150;
+const DEFAULT_PAGE_SELECTION: PageSelection = { mode: 'current', range: '' };
+const DEFAULT_ANCHOR: PlacementAnchor = 'relative';
+const DEFAULT_TEXT_STYLE: Pick<TextLayer, 'fontFamily' | 'fontSize' | 'color' | 'align'> = {
+  fontFamily: 'alef',
+  fontSize: 24,
+  color: '#1c1c1e',
+  align: 'left',
 };
+const DUPLICATE_OFFSET = 15;
 
+/** What undo and redo step through: the layers, and how the pages are organized. */
+interface EditorDocument {
+  layers: Layer[];
+  pageOrganization: PageOrganization | null;
+}
 
 const App: React.FC = () => {
   const { t } = useSettings();
   const [pdfFile, setPdfFile] = useState<File | null>(null);
-  const [image, setImage] = useState<ImageState>(initialImageState);
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  // The passwords the open PDF was unlocked with, or null if it isn't encrypted
+  const [pdfProtection, setPdfProtection] = useState<PdfProtection | null>(null);
+  const [outputEncryption, setOutputEncryption] = useState<OutputEncryption>({ mode: 'keep' });
+  const [stampOutput, setStampOutput] = useState<StampOutput>({ mode: 'flatten' });
+  // Signed fields of the open PDF, whose signatures a full rewrite would invalidate
+  const [signedFieldNames, setSignedFieldNames] = useState<string[]>([]);
+  const [appendChanges, setAppendChanges] = useState(false);
+  // Only ever held in memory, so the private key is gone once the page is closed
+  const [signingCredentials, setSigningCredentials] = useState<SigningCredentials | null>(null);
+  const [signatureLayerId, setSignatureLayerId] = useState<string | null>(null);
+  const [signatureReason, setSignatureReason] = useState('');
+  const [pageNumbering, setPageNumbering] = useState<PageNumbering>(DEFAULT_PAGE_NUMBERING);
+  // The number of the reference document's first numbered page, after the files before it in the batch
+  const [referenceFirstPageNumber, setReferenceFirstPageNumber] = useState(DEFAULT_PAGE_NUMBERING.start);
+  const pageCountsRef = useRef(new WeakMap<File, number>());
+  const [imagePageOptions, setImagePageOptions] = useState<ImagePageOptions>({ pageSize: 'a4', margin: 10, autoOrientation: true });
+  // Combined documents are kept unencrypted while editing, and stamped with the passwords of the file they came from
+  const inheritedProtectionRef = useRef(new WeakMap<File, PdfProtection>());
+  // Every change to the layers and pages goes through the history, so it can be undone
+  const { present: editorDocument, apply: applyDocument, undo, redo, canUndo, canRedo } = useHistory<EditorDocument>({ layers: [], pageOrganization: null });
+  const { layers, pageOrganization } = editorDocument;
+  // An arrangement made for another file, which undo can bring back, doesn't apply to this one
+  const organizedPages = pageOrganization && pageOrganization.file === pdfFile ? pageOrganization.pages : null;
+  const [selectedLayerId, setSelectedLayerId] = useState<string | null>(null);
+  const [currentPageIndex, setCurrentPageIndex] = useState(0);
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
   const [isImageProcessing, setIsImageProcessing] = useState<boolean>(false);
   const [removeImageBg, setRemoveImageBg] = useState<boolean>(true); // Default to true
+  // The settings last applied in the background dialog, used for new uploads
+  const [backgroundSettings, setBackgroundSettings] = useState<BackgroundRemovalSettings>(DEFAULT_BACKGROUND_REMOVAL);
+  const [backgroundEditLayerId, setBackgroundEditLayerId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isSignaturePadOpen, setIsSignaturePadOpen] = useState(false);
+  // Removed layers can come back through undo, so object URLs are only revoked on unmount
+  const objectUrlsRef = useRef(new Set<string>());
+  // Placing a library stamp again reuses its file, so the merge embeds the image only once
+  const libraryFilesRef = useRef(new Map<string, { file: File; objectUrl: string }>());
+
+  const selectedLayer = layers.find(layer => layer.id === selectedLayerId) ?? null;
+  const backgroundEditLayer = layers.find(layer => layer.id === backgroundEditLayerId) ?? null;
+  // Encrypted PDFs can only be rewritten, since the new objects would have to be encrypted with the original key
+  const canAppendChanges = !pdfProtection;
+  const isAppendingChanges = appendChanges && canAppendChanges;
+
+  const setLayers = useCallback((update: (layers: Layer[]) => Layer[], mergeKey?: string) => {
+    applyDocument(prev => {
+      const next = update(prev.layers);
+      return next === prev.layers ? prev : { ...prev, layers: next };
+    }, mergeKey);
+  }, [applyDocument]);
+
+  // Page changes and the layers moving with them are undone as one step
+  const handlePagesChange = useCallback((pages: OrganizedPage[], updateLayers: (layers: Layer[]) => Layer[]) => {
+    if (!pdfFile) return;
+    applyDocument(prev => ({ layers: updateLayers(prev.layers), pageOrganization: { file: pdfFile, pages } }));
+  }, [pdfFile, applyDocument]);
 
   const handlePdfDrop = useCallback((acceptedFiles: File[]) => {
-    const file = acceptedFiles[0];
-    if (file && file.type === 'application/pdf') {
-      setPdfFile(file);
-      setError(null);
+    const pdfFiles = acceptedFiles.filter(file => file.type === 'application/pdf');
+    if (pdfFiles.length > 0) {
+      setPdfFile(pdfFiles[0]);
+      setBatchItems(pdfFiles.map(file => ({ id: crypto.randomUUID(), file, status: 'pending' })));
+      setError(pdfFiles.length < acceptedFiles.length ? t('errorInvalidPdf') : null);
     } else {
       setError(t('errorInvalidPdf'));
     }
   }, [t]);
 
-  const handleImageDrop = useCallback(async (acceptedFiles: File[]) => {
-    const file = acceptedFiles[0];
-    if (file && file.type.startsWith('image/')) {
-        setIsImageProcessing(true);
-        setError(null);
-        try {
-            let finalFile = file;
-            if (removeImageBg) {
-                const transparentBlob = await removeWhiteBackground(file);
-                const newName = file.name.substring(0, file.name.lastIndexOf('.')) + '.png';
-                finalFile = new File([transparentBlob], newName, { type: 'image/png' });
-            }
+  const handleProtectionChange = useCallback((protection: PdfProtection | null) => {
+    setPdfProtection(protection ?? (pdfFile && inheritedProtectionRef.current.get(pdfFile)) ?? null);
+  }, [pdfFile]);
 
-            if (image.objectUrl) {
-                URL.revokeObjectURL(image.objectUrl);
-            }
+  // Layers placed on a longer document are moved to the last page of the one that replaced it
+  const handlePageCountChange = useCallback((pageCount: number) => {
+    setLayers(prev => prev.some(layer => layer.pageIndex >= pageCount)
+      ? prev.map(layer => layer.pageIndex >= pageCount ? { ...layer, pageIndex: pageCount - 1 } : layer)
+      : prev);
+  }, [setLayers]);
 
-            setImage({
-                ...initialImageState,
+  const handlePdfLoadError = useCallback((messageKey: TranslationKey) => {
+    setError(t(messageKey));
+    setPdfFile(null);
+  }, [t]);
+
+  const handleImageDrop = useCallback(async (acceptedFiles: File[]) => {
+    // Unsupported files are reported right away instead of failing when the PDF is stamped
+    const unsupportedFiles = acceptedFiles.filter(file => !getImageFormat(file));
+    const unsupportedError = unsupportedFiles.length > 0
+        ? `${t('errorUnsupportedImageFiles')} ${unsupportedFiles.map(file => file.name).join(', ')}`
+        : null;
+    const imageFiles = acceptedFiles.filter(file => getImageFormat(file));
+    setError(unsupportedError);
+    if (imageFiles.length === 0) return;
+    setIsImageProcessing(true);
+    try {
+        const newLayers: Layer[] = [];
+        for (const file of imageFiles) {
+            const format = getImageFormat(file)!;
+            const base = {
+                id: crypto.randomUUID(),
+                position: DEFAULT_LAYER_POSITION,
+                pageIndex: currentPageIndex,
+                pageSelection: DEFAULT_PAGE_SELECTION,
+                anchor: DEFAULT_ANCHOR,
+                rotation: 0,
+                opacity: 1,
+                blendMode: 'normal' as const,
+                tiling: null,
+            };
+            // SVGs stay vectors unless they use features the PDF can't draw as paths
+            const vector = format === 'svg' ? await parseSvg(file) : null;
+            if (vector) {
+                newLayers.push({ ...base, kind: 'vector', file, ...vector, size: fitToSide(vector.contentSize, DEFAULT_LAYER_MAX_SIDE) });
+                continue;
+            }
+            // The PDF only embeds PNG and JPEG, so other formats are converted; the
+            // converted copy is the original that background removal starts from
+            const embeddableFile = await convertToEmbeddable(file, format);
+            // Read the metadata before background removal re-encodes the image and drops it
+            const imageInfo = await readImageInfo(file, embeddableFile);
+            const backgroundRemoval = removeImageBg ? backgroundSettings : null;
+            const finalFile = backgroundRemoval ? await removeBackground(embeddableFile, backgroundRemoval) : embeddableFile;
+            const objectUrl = URL.createObjectURL(finalFile);
+            objectUrlsRef.current.add(objectUrl);
+            newLayers.push({
+                ...base,
+                kind: 'image',
                 file: finalFile,
-                objectUrl: URL.createObjectURL(finalFile)
+                objectUrl,
+                imageInfo,
+                originalFile: embeddableFile,
+                backgroundRemoval,
+                size: fitToSide(imageInfo.naturalSize, DEFAULT_LAYER_MAX_SIDE),
             });
-        } catch (err) {
-            console.error("Image processing failed:", err);
-            setError(t('errorProcessImage'));
-            setImage(initialImageState);
-        } finally {
-            setIsImageProcessing(false);
         }
+        setLayers(prev => [...prev, ...newLayers]);
+        setSelectedLayerId(newLayers[newLayers.length - 1].id);
+    } catch (err) {
+        console.error("Image processing failed:", err);
+        setError(t('errorProcessImage'));
+    } finally {
+        setIsImageProcessing(false);
+    }
+  }, [removeImageBg, backgroundSettings, currentPageIndex, t]);
+
+  const handleAddText = useCallback(async () => {
+    setError(null);
+    try {
+      // The font must be available before the text can be measured
+      await ensureFontLoaded(DEFAULT_TEXT_STYLE.fontFamily);
+    } catch (err) {
+      console.error("Font loading failed:", err);
+      setError(t('errorLoadFont'));
+      return;
+    }
+    const layer = fitTextLayer({
+      id: crypto.randomUUID(),
+      kind: 'text',
+      text: t('defaultStampText'),
+      ...DEFAULT_TEXT_STYLE,
+      position: DEFAULT_LAYER_POSITION,
+      size: { width: 0, height: 0 },
+      pageIndex: currentPageIndex,
+      pageSelection: DEFAULT_PAGE_SELECTION,
+      anchor: DEFAULT_ANCHOR,
+      rotation: 0,
+      opacity: 1,
+      blendMode: 'normal',
+      tiling: null,
+    });
+    setLayers(prev => [...prev, layer]);
+    setSelectedLayerId(layer.id);
+  }, [currentPageIndex, t]);
+
+  const handleSignatureSave = useCallback((strokes: SignatureStroke[], contentSize: Size) => {
+    const layer: DrawingLayer = {
+      id: crypto.randomUUID(),
+      kind: 'drawing',
+      strokes,
+      contentSize,
+      position: DEFAULT_LAYER_POSITION,
+      size: fitToSide(contentSize, DEFAULT_LAYER_MAX_SIDE),
+      pageIndex: currentPageIndex,
+      pageSelection: DEFAULT_PAGE_SELECTION,
+      anchor: DEFAULT_ANCHOR,
+      rotation: 0,
+      opacity: 1,
+      blendMode: 'normal',
+      tiling: null,
+    };
+    setLayers(prev => [...prev, layer]);
+    setSelectedLayerId(layer.id);
+    setIsSignaturePadOpen(false);
+  }, [currentPageIndex]);
+
+  /**
+   * Places a stamp from the library at its saved size and anchor.
+   * @param center Where the stamp was dropped, in points. Defaults to the usual position for new layers.
+   * @param pageIndex The page it was dropped on. Defaults to the current page.
+   */
+  const handleStampPlace = useCallback((stamp: LibraryStamp, center?: Point, pageIndex = currentPageIndex) => {
+    const { content, defaultSize } = stamp;
+    const base = {
+      id: crypto.randomUUID(),
+      position: center
+        ? { x: Math.max(0, center.x - defaultSize.width / 2), y: Math.max(0, center.y - defaultSize.height / 2) }
+        : DEFAULT_LAYER_POSITION,
+      size: defaultSize,
+      pageIndex,
+      pageSelection: DEFAULT_PAGE_SELECTION,
+      anchor: stamp.defaultAnchor,
+      rotation: 0,
+      opacity: 1,
+      blendMode: 'normal' as const,
+      tiling: null,
+    };
+    let layer: Layer;
+    if (content.kind === 'image') {
+      let libraryFile = libraryFilesRef.current.get(stamp.id);
+      if (!libraryFile) {
+        const file = new File([content.blob], content.fileName, { type: content.blob.type });
+        libraryFile = { file, objectUrl: URL.createObjectURL(file) };
+        objectUrlsRef.current.add(libraryFile.objectUrl);
+        libraryFilesRef.current.set(stamp.id, libraryFile);
+      }
+      // Library images are stored after background removal, so they are their own original
+      layer = { ...base, kind: 'image', ...libraryFile, imageInfo: content.imageInfo, originalFile: libraryFile.file, backgroundRemoval: null };
+    } else if (content.kind === 'vector') {
+      const file = new File([content.blob], content.fileName, { type: content.blob.type });
+      layer = { ...base, kind: 'vector', file, shapes: content.shapes, contentSize: content.contentSize };
     } else {
-        setError(t('errorInvalidImage'));
+      layer = { ...base, kind: 'drawing', strokes: content.strokes, contentSize: content.contentSize };
+    }
+    setLayers(prev => [...prev, layer]);
+    setSelectedLayerId(layer.id);
+  }, [currentPageIndex]);
+
+  const handleStampDrop = useCallback(async (stampId: string, pageIndex: number, center: Point) => {
+    try {
+      const stamp = await getStamp(stampId);
+      if (stamp) handleStampPlace(stamp, center, pageIndex);
+    } catch (err) {
+      console.error("Stamp library failed:", err);
+      setError(t('errorStampLibrary'));
     }
-  }, [removeImageBg, image.objectUrl, t]);
-  
-  const handleImageUpdate = useCallback((pos: {x: number, y: number}, size: {width: number, height: number}) => {
-    setImage(prev => ({...prev, position: pos, size: size}));
+  }, [handleStampPlace, t]);
+
+  /** Places a generated QR code or barcode as a vector layer on the current page. */
+  const handleCodePlace = useCallback((code: { file: File; shapes: VectorShape[]; contentSize: Size }) => {
+    const layer: Layer = {
+      id: crypto.randomUUID(),
+      kind: 'vector',
+      ...code,
+      position: DEFAULT_LAYER_POSITION,
+      size: fitToSide(code.contentSize, DEFAULT_LAYER_MAX_SIDE),
+      pageIndex: currentPageIndex,
+      pageSelection: DEFAULT_PAGE_SELECTION,
+      anchor: DEFAULT_ANCHOR,
+      rotation: 0,
+      opacity: 1,
+      blendMode: 'normal',
+      tiling: null,
+    };
+    setLayers(prev => [...prev, layer]);
+    setSelectedLayerId(layer.id);
+  }, [currentPageIndex]);
+
+  const handleLayerUpdate = useCallback((id: string, pos: Point, size: Size, pageIndex?: number, mergeKey?: string) => {
+    setLayers(prev => {
+      const next = replaceLayer(prev, id, layer => resizeLayer(layer, pos, size));
+      const layer = next.find(l => l.id === id);
+      if (pageIndex === undefined || !layer) return next;
+      // A layer dragged onto another page is drawn above the layers already there
+      return [...next.filter(l => l.id !== id), { ...layer, pageIndex }];
+    }, mergeKey ? `${id}:${mergeKey}` : undefined);
   }, []);
 
+  const handleLayerChange = useCallback((id: string, changes: LayerChanges) => {
+    // Repeated changes to the same properties, such as typing or moving a slider, are undone together
+    const mergeKey = `${id}:${Object.keys(changes).sort().join(',')}`;
+    const apply = () => setLayers(prev => replaceLayer(prev, id, layer => applyLayerChanges(layer, changes)), mergeKey);
+    if (changes.fontFamily) {
+      // Switching fonts re-measures the text, so wait until the new font is available
+      ensureFontLoaded(changes.fontFamily).then(apply, (err) => {
+        console.error("Font loading failed:", err);
+        setError(t('errorLoadFont'));
+      });
+    } else {
+      apply();
+    }
+  }, [t]);
+
   const handleImageReset = useCallback(() => {
-    setImage(prev => ({
-      ...prev,
-      position: initialImageState.position,
-      size: initialImageState.size,
+    if (!selectedLayerId) return;
+    setLayers(prev => replaceLayer(prev, selectedLayerId, layer => {
+      if (layer.kind === 'text') {
+        return fitTextLayer({ ...layer, position: DEFAULT_LAYER_POSITION, fontSize: DEFAULT_TEXT_STYLE.fontSize, rotation: 0 });
+      }
+      return {
+        ...layer,
+        position: DEFAULT_LAYER_POSITION,
+        size: fitToSide(layer.kind === 'image' ? layer.imageInfo.naturalSize : layer.contentSize, DEFAULT_LAYER_MAX_SIDE),
+        rotation: 0,
+      };
     }));
-  }, []);
+  }, [selectedLayerId]);
+
+  /**
+   * Re-applies background removal to an image layer, starting from its original upload.
+   * @param settings The settings to apply, or null to go back to the original image.
+   */
+  const handleBackgroundApply = useCallback(async (layerId: string, settings: BackgroundRemovalSettings | null) => {
+    const layer = layers.find(l => l.id === layerId);
+    if (layer?.kind !== 'image') return;
+    setBackgroundEditLayerId(null);
+    setIsImageProcessing(true);
+    setError(null);
+    try {
+      const file = settings ? await removeBackground(layer.originalFile, settings) : layer.originalFile;
+      const objectUrl = URL.createObjectURL(file);
+      objectUrlsRef.current.add(objectUrl);
+      setLayers(prev => replaceLayer(prev, layerId, l => ({ ...l, file, objectUrl, backgroundRemoval: settings })));
+      if (settings) setBackgroundSettings(settings);
+    } catch (err) {
+      console.error("Image processing failed:", err);
+      setError(t('errorProcessImage'));
+    } finally {
+      setIsImageProcessing(false);
+    }
+  }, [layers, t]);
 
   const handleImageClear = useCallback(() => {
-    if (image.objectUrl) {
-      URL.revokeObjectURL(image.objectUrl);
-    }
-    setImage(initialImageState);
-  }, [image.objectUrl]);
+    if (!selectedLayerId) return;
+    setLayers(prev => prev.filter(l => l.id !== selectedLayerId));
+    setSelectedLayerId(null);
+  }, [selectedLayerId]);
+
+  const handleLayerDuplicate = useCallback(() => {
+    const layer = layers.find(l => l.id === selectedLayerId);
+    if (!layer) return;
+    const copy: Layer = {
+      ...layer,
+      id: crypto.randomUUID(),
+      position: { x: layer.position.x + DUPLICATE_OFFSET, y: layer.position.y + DUPLICATE_OFFSET },
+    };
+    setLayers(prev => {
+      const index = prev.findIndex(l => l.id === layer.id);
+      return [...prev.slice(0, index + 1), copy, ...prev.slice(index + 1)];
+    });
+    setSelectedLayerId(copy.id);
+  }, [layers, selectedLayerId]);
+
+  /**
+   * Moves the selected layer one step up or down in the stacking order of its page.
+   * Layers are drawn in array order, so later entries end up on top.
+   */
+  const handleLayerReorder = useCallback((direction: 1 | -1) => {
+    setLayers(prev => {
+      const index = prev.findIndex(l => l.id === selectedLayerId);
+      if (index < 0) return prev;
+      let target = index + direction;
+      while (target >= 0 && target < prev.length && prev[target].pageIndex !== prev[index].pageIndex) {
+        target += direction;
+      }
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  }, [selectedLayerId]);
+
+  // Ctrl+Z undoes and Ctrl+Shift+Z (or Ctrl+Y) redoes, except in form fields, which keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
 
+  // The preview shows page numbers in the font they are written in
+  useEffect(() => {
+    if (pageNumbering.enabled) ensureFontLoaded(NUMBERING_FONT).catch(console.error);
+  }, [pageNumbering.enabled]);
 
+  // The preview numbers the reference document as the batch will, carrying on from the files before it
   useEffect(() => {
-    return () => {
-      if (image.objectUrl) {
-        URL.revokeObjectURL(image.objectUrl);
+    if (!pageNumbering.enabled) return;
+    const referenceIndex = batchItems.findIndex(item => item.file === pdfFile);
+    const earlierFiles = batchItems.slice(0, Math.max(0, referenceIndex)).map(item => item.file);
+    let isCancelled = false;
+    const countEarlierPages = async () => {
+      let firstNumber = pageNumbering.start;
+      for (const file of earlierFiles) {
+        let pageCount = pageCountsRef.current.get(file);
+        if (pageCount === undefined) {
+          try {
+            pageCount = (await getPageSizes(await file.arrayBuffer())).length;
+          } catch {
+            // A file that can't be read fails in the batch too, and doesn't use up any numbers
+            pageCount = 0;
+          }
+          pageCountsRef.current.set(file, pageCount);
+        }
+        firstNumber += countNumberedPages(pageNumbering, pageCount);
       }
+      if (!isCancelled) setReferenceFirstPageNumber(firstNumber);
     };
-  }, [image.objectUrl]);
+    countEarlierPages();
+    return () => { isCancelled = true; };
+  }, [pageNumbering, batchItems, pdfFile]);
+
+  // Revoke every object URL when the app unmounts
+  useEffect(() => {
+    const objectUrls = objectUrlsRef.current;
+    return () => objectUrls.forEach(url => URL.revokeObjectURL(url));
+  }, []);
+
+  const getErrorMessage = (err: unknown): string => {
+    if (err instanceof StampError) return t(err.messageKey);
+    return err instanceof Error ? err.message : t('errorMerge');
+  };
 
-  const mergeAndDownload = async (pageIndex: number, scale: number) => {
-    if (!pdfFile || !image.file) {
+  const handleLoadCredentials = async (file: File, password: string) => {
+    setError(null);
+    try {
+      setSigningCredentials(await readCredentials(file, password));
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  /**
+   * Adds PDFs and images to the end of the open document. The result replaces the
+   * open file, with the page organization applied, so the layers keep their pages.
+   */
+  const handleAppendFiles = async (acceptedFiles: File[]) => {
+    if (!pdfFile) return;
+    const unsupportedFiles = acceptedFiles.filter(file => file.type !== 'application/pdf' && !getImageFormat(file));
+    const files = acceptedFiles.filter(file => !unsupportedFiles.includes(file));
+    setError(unsupportedFiles.length > 0 ? `${t('errorUnsupportedImageFiles')} ${unsupportedFiles.map(file => file.name).join(', ')}` : null);
+    if (files.length === 0) return;
+    if (signedFieldNames.length > 0 && !isAppendingChanges && !window.confirm(`${t('signedRewriteConfirm')} ${signedFieldNames.join(', ')}`)) {
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      const pdfBytes = await combineDocuments(await pdfFile.arrayBuffer(), files, {
+        protection: pdfProtection,
+        appendChanges: isAppendingChanges,
+        pages: organizedPages ?? undefined,
+        imagePages: imagePageOptions,
+      });
+      const combinedFile = new File([pdfBytes], pdfFile.name, { type: 'application/pdf' });
+      if (pdfProtection) inheritedProtectionRef.current.set(combinedFile, pdfProtection);
+      setBatchItems(prev => prev.map(item => item.file === pdfFile ? { ...item, file: combinedFile } : item));
+      setPdfFile(combinedFile);
+    } catch (err) {
+      console.error(err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  /** Stamps a PDF and, with a certificate loaded, signs the result. */
+  const createOutput = async (pdfBytes: ArrayBuffer, options: StampOptions) => {
+    if (!signingCredentials) return stampPdf(pdfBytes, layers, options);
+    const signature = { layerId: signatureLayerId, signerName: signingCredentials.signerName, reason: signatureReason };
+    return signPdf(await stampPdf(pdfBytes, layers, { ...options, signature }), signingCredentials);
+  };
+
+  const mergeAndDownload = async () => {
+    // Page changes, page numbers and a signature can be saved on their own, without any layers
+    if (!pdfFile || (layers.length === 0 && !organizedPages && !pageNumbering.enabled && !signingCredentials)) {
       setError(t('errorMissingFiles'));
       return;
     }
+    if (signingCredentials && pdfProtection) {
+      setError(t('errorSignEncrypted'));
+      return;
+    }
+    if (pdfProtection && outputEncryption.mode === 'new' && outputEncryption.password === '') {
+      setError(t('errorMissingNewPassword'));
+      return;
+    }
+    if (signedFieldNames.length > 0 && !isAppendingChanges && !window.confirm(`${t('signedRewriteConfirm')} ${signedFieldNames.join(', ')}`)) {
+      return;
+    }
 
     setIsProcessing(true);
     setError(null);
 
     try {
-      const { PDFDocument } = PDFLib;
+      const pdfBytes = await createOutput(await pdfFile.arrayBuffer(), {
+        pages: organizedPages ?? undefined,
+        protection: pdfProtection,
+        encryption: outputEncryption,
+        output: stampOutput,
+        appendChanges: isAppendingChanges,
+        numbering: pageNumbering,
+      });
+      downloadBlob(new Blob([pdfBytes], { type: 'application/pdf' }), `merged-${pdfFile.name}`);
+    } catch (err) {
+      console.error(err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  /**
+   * Applies the layers placed on the reference document to every PDF in the
+   * batch and downloads the results as a single ZIP. A failing file is marked
+   * as such and does not stop the rest of the batch.
+   */
+  const processBatch = async () => {
+    if (!pdfFile || (layers.length === 0 && !pageNumbering.enabled)) {
+      setError(t('errorMissingFiles'));
+      return;
+    }
 
-      const pdfBuffer = await pdfFile.arrayBuffer();
-      const imageBuffer = await image.file.arrayBuffer();
+    setIsProcessing(true);
+    setError(null);
+    setBatchItems(prev => prev.map(item => ({ ...item, status: 'pending', error: undefined })));
 
-      const pdfDoc = await PDFDocument.load(pdfBuffer);
-      const page = pdfDoc.getPages()[pageIndex];
+    const updateItem = (id: string, changes: Partial<BatchItem>) => {
+      setBatchItems(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+    };
 
-      let embeddedImage;
-      if (image.file.type === 'image/png') {
-        embeddedImage = await pdfDoc.embedPng(imageBuffer);
-      } else if (image.file.type === 'image/jpeg') {
-        embeddedImage = await pdfDoc.embedJpg(imageBuffer);
-      } else {
-        throw new Error(t('errorUnsupportedImageType'));
+    try {
+      // The layers were placed on the reference document as organized
+      const referencePageSizes = await getPageSizes(await pdfFile.arrayBuffer(), pdfProtection, organizedPages ?? undefined);
+      const entries: ZipEntry[] = [];
+      // Page numbers carry on from one file to the next, in the order of the batch
+      let nextPageNumber = pageNumbering.start;
+      for (const item of batchItems) {
+        updateItem(item.id, { status: 'processing' });
+        try {
+          // Only the reference file has been unlocked; other encrypted files fail with their own message.
+          // Its pages are organized too, while the other files keep their own pages
+          const isReference = item.file === pdfFile;
+          const protection = isReference ? pdfProtection : null;
+          const pages = isReference ? organizedPages ?? undefined : undefined;
+          const pdfBytes = await item.file.arrayBuffer();
+          const pageCount = pageNumbering.enabled ? (await getPageSizes(pdfBytes, protection, pages)).length : 0;
+          const data = await createOutput(pdfBytes, {
+            referencePageSizes,
+            pages,
+            protection,
+            encryption: outputEncryption,
+            output: stampOutput,
+            appendChanges: isAppendingChanges,
+            numbering: pageNumbering,
+            firstPageNumber: nextPageNumber,
+          });
+          entries.push({ name: `merged-${item.file.name}`, data });
+          // A file that fails doesn't use up any numbers
+          nextPageNumber += countNumberedPages(pageNumbering, pageCount);
+          updateItem(item.id, { status: 'done' });
+        } catch (err) {
+          console.error(`Failed to process ${item.file.name}:`, err);
+          updateItem(item.id, { status: 'error', error: getErrorMessage(err) });
+        }
       }
-      
-      const pageHeight = page.getHeight();
-
-      const x_pt = image.position.x / scale;
-      const y_pt = pageHeight - (image.position.y / scale) - (image.size.height / scale);
-      const width_pt = image.size.width / scale;
-      const height_pt = image.size.height / scale;
-      
-      page.drawImage(embeddedImage, {
-        x: x_pt,
-        y: y_pt,
-        width: width_pt,
-        height: height_pt,
-      });
-
-      const pdfBytes = await pdfDoc.save();
-      
-      const blob = new Blob([pdfBytes], { type: 'application/pdf' });
-      const link = document.createElement('a');
-      link.href = URL.createObjectURL(blob);
-      link.download = `merged-${pdfFile.name}`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(link.href);
 
+      if (entries.length === 0) {
+        throw new Error(t('errorBatchFailed'));
+      }
+      downloadBlob(createZip(entries), 'merged-pdfs.zip');
     } catch (err) {
       console.error(err);
-      const message = err instanceof Error ? err.message : t('errorMerge');
-      setError(message);
+      setError(getErrorMessage(err));
     } finally {
       setIsProcessing(false);
     }
@@ -241,14 +669,40 @@ const App: React.FC = () => {
             file={pdfFile}
             prompt={t('dropzonePdfPrompt')}
             fileType="PDF"
+            multiple
             disabled={isImageProcessing || isProcessing}
           />
+          {batchItems.length > 1 && (
+            <BatchPanel
+              items={batchItems}
+              referenceFile={pdfFile}
+              onSelectReference={setPdfFile}
+              onProcess={processBatch}
+              canProcess={layers.length > 0 || pageNumbering.enabled}
+              isProcessing={isProcessing}
+            />
+          )}
+          {pdfFile && (
+            <>
+              <FileDropzone
+                onDrop={handleAppendFiles}
+                accept={{ 'application/pdf': ['.pdf'], ...IMAGE_ACCEPT }}
+                file={null}
+                prompt={t('dropzoneAppendPrompt')}
+                fileType="Pages"
+                multiple
+                disabled={isImageProcessing || isProcessing}
+              />
+              <ImagePageSettings value={imagePageOptions} onChange={setImagePageOptions} disabled={isProcessing} />
+            </>
+          )}
           <FileDropzone
             onDrop={handleImageDrop}
-            accept={{ 'image/*': ['.png', '.jpg', '.jpeg'] }}
-            file={image.file}
+            accept={IMAGE_ACCEPT}
+            file={selectedLayer?.kind === 'image' || selectedLayer?.kind === 'vector' ? selectedLayer.file : null}
             prompt={isImageProcessing ? t('dropzoneProcessing') : t('dropzoneImagePrompt')}
             fileType="Image"
+            multiple
             disabled={isImageProcessing || isProcessing}
           />
           
@@ -273,23 +727,95 @@ const App: React.FC = () => {
           </div>
            <p className="text-xs text-brand-text-secondary px-1 -mt-4">{t('transparentTooltip')}</p>
 
+          <div className="bg-brand-surface p-4 rounded-lg shadow-lg flex flex-col gap-2">
+            <button
+              onClick={handleAddText}
+              disabled={!pdfFile || isProcessing}
+              className="w-full py-2 px-4 rounded-md border border-border-color hover:bg-brand-primary/20 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 font-semibold transition-colors"
+            >
+              <TextIcon className="w-5 h-5" />
+              <span>{t('addTextButton')}</span>
+            </button>
+            <button
+              onClick={() => setIsSignaturePadOpen(true)}
+              disabled={!pdfFile || isProcessing}
+              className="w-full py-2 px-4 rounded-md border border-border-color hover:bg-brand-primary/20 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 font-semibold transition-colors"
+            >
+              <SignatureIcon className="w-5 h-5" />
+              <span>{t('drawSignatureButton')}</span>
+            </button>
+          </div>
+          
+          <CodeGeneratorPanel onPlace={handleCodePlace} onError={setError} disabled={!pdfFile || isProcessing} />
+
+          <PageNumberingOptions value={pageNumbering} onChange={setPageNumbering} disabled={!pdfFile || isProcessing} />
+
+          <StampOutputOptions
+            value={stampOutput}
+            onChange={setStampOutput}
+            appendChanges={isAppendingChanges}
+            onAppendChangesChange={setAppendChanges}
+            canAppendChanges={canAppendChanges}
+            signedFieldCount={signedFieldNames.length}
+            disabled={!pdfFile || isProcessing}
+          />
+
+          <DigitalSignaturePanel
+            credentials={signingCredentials}
+            onLoadCredentials={handleLoadCredentials}
+            onClearCredentials={() => setSigningCredentials(null)}
+            layers={layers}
+            appearanceLayerId={signatureLayerId}
+            onAppearanceLayerChange={setSignatureLayerId}
+            reason={signatureReason}
+            onReasonChange={setSignatureReason}
+            disabled={!pdfFile || isProcessing}
+          />
+
+          {pdfProtection && (
+            <EncryptionOptions value={outputEncryption} onChange={setOutputEncryption} disabled={isProcessing} />
+          )}
+
+          <StampLibraryPanel
+            selectedLayer={selectedLayer}
+            onPlace={handleStampPlace}
+            onError={setError}
+            disabled={!pdfFile || isProcessing}
+          />
           
           {error && <div className="bg-red-500/20 text-red-300 p-3 rounded-md border border-red-500/50">{error}</div>}
         </aside>
 
-        <section className="lg:w-2/3 flex-grow flex flex-col bg-brand-surface rounded-lg shadow-2xl overflow-hidden">
+        <section className="lg:w-2/3 flex-grow flex flex-col bg-brand-surface rounded-lg shadow-2xl overflow-hidden h-[85vh] min-h-[28rem]">
           {pdfFile ? (
             <PdfEditor
               pdfFile={pdfFile}
-              image={image.file && image.objectUrl ? {
-                url: image.objectUrl,
-                position: image.position,
-                size: image.size
-              } : null}
-              onImageUpdate={handleImageUpdate}
+              layers={layers}
+              pages={organizedPages}
+              pageNumbering={pageNumbering}
+              firstPageNumber={referenceFirstPageNumber}
+              onPagesChange={handlePagesChange}
+              selectedLayerId={selectedLayerId}
+              onSelectLayer={setSelectedLayerId}
+              onLayerUpdate={handleLayerUpdate}
+              onLayerChange={handleLayerChange}
+              onLayerDuplicate={handleLayerDuplicate}
+              onLayerReorder={handleLayerReorder}
               onImageReset={handleImageReset}
               onImageClear={handleImageClear}
+              onImageBackgroundEdit={() => setBackgroundEditLayerId(selectedLayerId)}
+              onPageChange={setCurrentPageIndex}
+              onProtectionChange={handleProtectionChange}
+              onSignedFieldsChange={setSignedFieldNames}
+              onPageCountChange={handlePageCountChange}
+              onLoadError={handlePdfLoadError}
+              onStampDrop={handleStampDrop}
+              onUndo={undo}
+              onRedo={redo}
+              canUndo={canUndo}
+              canRedo={canRedo}
               onMerge={mergeAndDownload}
+              canMerge={layers.length > 0 || !!organizedPages || pageNumbering.enabled || !!signingCredentials}
               isProcessing={isProcessing}
             />
           ) : (
@@ -302,6 +828,19 @@ const App: React.FC = () => {
         </section>
       </main>
 
+      {backgroundEditLayer?.kind === 'image' && (
+        <BackgroundRemovalDialog
+          image={backgroundEditLayer.originalFile}
+          initialSettings={backgroundEditLayer.backgroundRemoval ?? backgroundSettings}
+          onApply={(settings) => handleBackgroundApply(backgroundEditLayer.id, settings)}
+          onClose={() => setBackgroundEditLayerId(null)}
+        />
+      )}
+
+      {isSignaturePadOpen && (
+        <SignaturePadModal onSave={handleSignatureSave} onClose={() => setIsSignaturePadOpen(false)} />
+      )}
+
       <footer className="text-center py-4 px-6 text-brand-text-secondary text-sm bg-brand-surface/50">
         <p>{t('footerCopyright')}</p>
         <a href="mailto:gold.noam@gmail.com" className="hover:text-brand-primary transition-colors">{t('footerFeedback')}</a>
@@ -0,0 +1,3 @@
+// ES modules that are imported at runtime from a CDN and ship no type declarations
+declare module 'https://unpkg.com/*';
+declare module 'https://esm.sh/*';
@@ -0,0 +1,191 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CloseIcon } from './Icons';
+import { useSettings } from '../contexts/SettingsContext';
+import { BackgroundRemovalSettings } from '../types';
+import { previewBackgroundRemoval } from '../utils/backgroundRemoval';
+
+const PREVIEW_MAX_SIDE = 480;
+// Waits for the sliders to settle before rendering a new preview
+const PREVIEW_DEBOUNCE_MS = 120;
+const CHECKERBOARD = 'repeating-conic-gradient(#d4d4d8 0% 25%, #ffffff 0% 50%) 50% / 16px 16px';
+
+interface BackgroundRemovalDialogProps {
+  /** The original upload, before any background removal. */
+  image: File;
+  initialSettings: BackgroundRemovalSettings;
+  /** Called with the chosen settings, or null to keep the original image. */
+  onApply: (settings: BackgroundRemovalSettings | null) => void;
+  onClose: () => void;
+}
+
+const toHex = (value: number) => value.toString(16).padStart(2, '0');
+
+/**
+ * A dialog to tune background removal for one image with a live preview.
+ * The preview is computed in the background removal worker on a downscaled copy.
+ */
+const BackgroundRemovalDialog: React.FC<BackgroundRemovalDialogProps> = ({ image, initialSettings, onApply, onClose }) => {
+  const { t } = useSettings();
+  const [settings, setSettings] = useState(initialSettings);
+  const [isPicking, setIsPicking] = useState(false);
+  const [isRendering, setIsRendering] = useState(false);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  // An unprocessed copy at preview size, for picking the key color
+  const originalRef = useRef<CanvasRenderingContext2D | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    createImageBitmap(image).then(bitmap => {
+      if (cancelled) return;
+      const scale = Math.min(1, PREVIEW_MAX_SIDE / Math.max(bitmap.width, bitmap.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+      canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+      ctx?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+      bitmap.close();
+      originalRef.current = ctx;
+    }, (err) => console.error("Image decoding failed:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [image]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsRendering(true);
+      try {
+        const pixels = await previewBackgroundRemoval(image, settings, PREVIEW_MAX_SIDE);
+        const canvas = previewRef.current;
+        if (cancelled || !canvas) return;
+        canvas.width = pixels.width;
+        canvas.height = pixels.height;
+        canvas.getContext('2d')?.putImageData(pixels, 0, 0);
+      } catch (err) {
+        console.error("Background preview failed:", err);
+      } finally {
+        if (!cancelled) setIsRendering(false);
+      }
+    }, PREVIEW_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [image, settings]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const update = (changes: Partial<BackgroundRemovalSettings>) => setSettings(prev => ({ ...prev, ...changes }));
+
+  const handlePreviewClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const original = originalRef.current;
+    if (!isPicking || !original) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = Math.floor((e.clientX - rect.left) * original.canvas.width / rect.width);
+    const y = Math.floor((e.clientY - rect.top) * original.canvas.height / rect.height);
+    const [r, g, b] = original.getImageData(x, y, 1, 1).data;
+    update({ keyColor: `#${toHex(r)}${toHex(g)}${toHex(b)}` });
+    setIsPicking(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" role="dialog" aria-modal="true" aria-labelledby="background-dialog-title">
+      <div className="w-full max-w-2xl bg-brand-surface text-brand-text rounded-lg shadow-2xl border border-border-color">
+        <div className="p-4 border-b border-border-color flex items-center justify-between">
+          <h3 id="background-dialog-title" className="font-semibold">{t('backgroundDialogTitle')}</h3>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-overlay-bg/10 transition-colors" aria-label={t('backgroundCancelButton')}>
+            <CloseIcon className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="p-4 flex flex-col sm:flex-row gap-4 text-sm">
+          <div className="relative flex-1 flex items-center justify-center rounded-md border border-border-color p-2" style={{ background: CHECKERBOARD }}>
+            <canvas
+              ref={previewRef}
+              onClick={handlePreviewClick}
+              aria-label={t('backgroundPreviewLabel')}
+              className={`max-w-full max-h-80 ${isPicking ? 'cursor-crosshair' : ''}`}
+            />
+            {isRendering && <div className="absolute top-2 right-2 w-4 h-4 border-2 border-brand-primary/40 border-t-brand-primary rounded-full animate-spin"></div>}
+          </div>
+          <div className="sm:w-56 flex flex-col gap-4">
+            <div className="flex flex-col gap-1">
+              <span className="font-medium text-brand-text-secondary">{t('backgroundKeyColorLabel')}</span>
+              <div className="flex items-center gap-2">
+                <input
+                  type="color"
+                  value={settings.keyColor}
+                  onChange={(e) => update({ keyColor: e.target.value })}
+                  aria-label={t('backgroundKeyColorLabel')}
+                  className="w-8 h-8 bg-transparent cursor-pointer"
+                />
+                <button
+                  onClick={() => setIsPicking(!isPicking)}
+                  aria-pressed={isPicking}
+                  className={`px-2 py-1 rounded-md border transition-colors ${isPicking ? 'bg-brand-primary text-white border-brand-primary' : 'border-border-color hover:bg-brand-primary/20'}`}
+                >
+                  {t('backgroundPickColorButton')}
+                </button>
+              </div>
+              {isPicking && <p className="text-xs text-brand-text-secondary">{t('backgroundPickColorHint')}</p>}
+            </div>
+            <label className="flex flex-col gap-1">
+              <span className="font-medium text-brand-text-secondary">{t('backgroundToleranceLabel')} ({settings.tolerance})</span>
+              <input
+                type="range"
+                min={0}
+                max={100}
+                step={1}
+                value={settings.tolerance}
+                onChange={(e) => update({ tolerance: Number(e.target.value) })}
+                className="accent-brand-primary"
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="font-medium text-brand-text-secondary">{t('backgroundFeatherLabel')} ({settings.feather}px)</span>
+              <input
+                type="range"
+                min={0}
+                max={10}
+                step={1}
+                value={settings.feather}
+                onChange={(e) => update({ feather: Number(e.target.value) })}
+                className="accent-brand-primary"
+              />
+            </label>
+            <label className="flex items-start gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.edgeOnly}
+                onChange={(e) => update({ edgeOnly: e.target.checked })}
+                className="mt-0.5 accent-brand-primary"
+              />
+              <span>{t('backgroundEdgeOnlyLabel')}</span>
+            </label>
+          </div>
+        </div>
+        <div className="p-4 border-t border-border-color flex flex-wrap items-center justify-between gap-2 text-sm">
+          <button onClick={() => onApply(null)} className="px-3 py-1.5 rounded-md bg-overlay-bg/10 hover:bg-overlay-bg/20 transition-colors">
+            {t('backgroundKeepOriginalButton')}
+          </button>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-3 py-1.5 rounded-md bg-overlay-bg/10 hover:bg-overlay-bg/20 transition-colors">
+              {t('backgroundCancelButton')}
+            </button>
+            <button onClick={() => onApply(settings)} className="px-3 py-1.5 rounded-md bg-brand-primary text-white hover:bg-brand-primary/90 font-semibold transition-colors">
+              {t('backgroundApplyButton')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BackgroundRemovalDialog;
@@ -0,0 +1,74 @@
+import React from 'react';
+import { FileIcon, DownloadIcon } from './Icons';
+import { useSettings } from '../contexts/SettingsContext';
+import { BatchItem, BatchItemStatus } from '../types';
+
+interface BatchPanelProps {
+  items: BatchItem[];
+  referenceFile: File | null;
+  onSelectReference: (file: File) => void;
+  onProcess: () => void;
+  canProcess: boolean;
+  isProcessing: boolean;
+}
+
+const STATUS_STYLES: Record<BatchItemStatus, string> = {
+  pending: 'text-brand-text-secondary',
+  processing: 'text-brand-primary',
+  done: 'text-green-500',
+  error: 'text-red-400',
+};
+
+const BatchPanel: React.FC<BatchPanelProps> = ({ items, referenceFile, onSelectReference, onProcess, canProcess, isProcessing }) => {
+  const { t } = useSettings();
+  const finishedCount = items.filter(item => item.status === 'done' || item.status === 'error').length;
+
+  const statusLabels: Record<BatchItemStatus, string> = {
+    pending: t('batchStatusPending'),
+    processing: t('batchStatusProcessing'),
+    done: t('batchStatusDone'),
+    error: t('batchStatusError'),
+  };
+
+  return (
+    <div className="bg-brand-surface p-4 rounded-lg shadow-lg flex flex-col gap-3 text-sm">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">{t('batchTitle')}</h3>
+        <span className="text-brand-text-secondary">{finishedCount} / {items.length}</span>
+      </div>
+      <p className="text-xs text-brand-text-secondary">{t('batchReferenceHint')}</p>
+      <ul className="max-h-60 overflow-y-auto flex flex-col gap-1">
+        {items.map(item => (
+          <li key={item.id} className="p-2 bg-overlay-bg/10 rounded-md">
+            <div className="flex items-center gap-2">
+              <input
+                type="radio"
+                name="batch-reference"
+                checked={item.file === referenceFile}
+                onChange={() => onSelectReference(item.file)}
+                disabled={isProcessing}
+                aria-label={t('batchUseAsReference')}
+                title={t('batchUseAsReference')}
+                className="accent-brand-primary"
+              />
+              <FileIcon className="w-4 h-4 text-brand-secondary flex-shrink-0" />
+              <span className="truncate flex-1" title={item.file.name}>{item.file.name}</span>
+              <span className={`flex-shrink-0 text-xs font-medium ${STATUS_STYLES[item.status]}`}>{statusLabels[item.status]}</span>
+            </div>
+            {item.error && <p className="mt-1 text-xs text-red-400">{item.error}</p>}
+          </li>
+        ))}
+      </ul>
+      <button
+        onClick={onProcess}
+        disabled={!canProcess || isProcessing}
+        className="bg-brand-primary hover:bg-brand-primary/80 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded-md flex items-center justify-center gap-2 transition-colors"
+      >
+        <DownloadIcon className="w-5 h-5" />
+        <span>{t('batchProcessButton')}</span>
+      </button>
+    </div>
+  );
+};
+
+export default BatchPanel;
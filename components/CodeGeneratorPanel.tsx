@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { TranslationKey, useSettings } from '../contexts/SettingsContext';
+import { CodeFormat, QrErrorCorrection, Size, VectorShape } from '../types';
+import { createCodeVector } from '../utils/codeVector';
+
+const FORMAT_OPTIONS: { value: CodeFormat; labelKey: TranslationKey; errorKey: TranslationKey }[] = [
+  { value: 'qr', labelKey: 'codeFormatQr', errorKey: 'errorQrCodeTooLong' },
+  { value: 'code128', labelKey: 'codeFormatCode128', errorKey: 'errorInvalidCode128' },
+  { value: 'ean13', labelKey: 'codeFormatEan13', errorKey: 'errorInvalidEan13' },
+];
+const ERROR_CORRECTION_OPTIONS: { value: QrErrorCorrection; labelKey: TranslationKey }[] = [
+  { value: 'L', labelKey: 'qrErrorCorrectionLow' },
+  { value: 'M', labelKey: 'qrErrorCorrectionMedium' },
+  { value: 'Q', labelKey: 'qrErrorCorrectionQuartile' },
+  { value: 'H', labelKey: 'qrErrorCorrectionHigh' },
+];
+
+interface CodeGeneratorPanelProps {
+  /** Receives the generated code as vector shapes, to be placed as a new layer. */
+  onPlace: (code: { file: File; shapes: VectorShape[]; contentSize: Size }) => void;
+  onError: (message: string | null) => void;
+  disabled: boolean;
+}
+
+/** Generates QR codes and barcodes from typed text, in the browser, to place as vector stamps. */
+const CodeGeneratorPanel: React.FC<CodeGeneratorPanelProps> = ({ onPlace, onError, disabled }) => {
+  const { t } = useSettings();
+  const [format, setFormat] = useState<CodeFormat>('qr');
+  const [text, setText] = useState('');
+  const [errorCorrection, setErrorCorrection] = useState<QrErrorCorrection>('M');
+  const inputClassName = 'px-2 py-1.5 bg-brand-surface border border-border-color rounded-md focus:outline-none focus:ring-brand-primary focus:border-brand-primary';
+
+  const handlePlace = () => {
+    const code = createCodeVector(format, text, errorCorrection);
+    if (!code) {
+      onError(t(FORMAT_OPTIONS.find(option => option.value === format)!.errorKey));
+      return;
+    }
+    onError(null);
+    onPlace(code);
+  };
+
+  return (
+    <fieldset className="bg-brand-surface p-4 rounded-lg shadow-lg flex flex-col gap-2 text-sm" disabled={disabled}>
+      <legend className="sr-only">{t('codeGeneratorTitle')}</legend>
+      <h3 className="font-semibold" aria-hidden="true">{t('codeGeneratorTitle')}</h3>
+      <p className="text-xs text-brand-text-secondary">{t('codeGeneratorHint')}</p>
+      <div className="flex gap-2">
+        <label className="flex flex-col gap-1 flex-1 min-w-0">
+          <span className="text-xs text-brand-text-secondary">{t('codeFormatLabel')}</span>
+          <select value={format} onChange={(e) => setFormat(e.target.value as CodeFormat)} className={inputClassName}>
+            {FORMAT_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{t(option.labelKey)}</option>
+            ))}
+          </select>
+        </label>
+        {format === 'qr' && (
+          <label className="flex flex-col gap-1 flex-1 min-w-0">
+            <span className="text-xs text-brand-text-secondary">{t('qrErrorCorrectionLabel')}</span>
+            <select
+              value={errorCorrection}
+              onChange={(e) => setErrorCorrection(e.target.value as QrErrorCorrection)}
+              className={inputClassName}
+            >
+              {ERROR_CORRECTION_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{t(option.labelKey)}</option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && text && handlePlace()}
+          aria-label={t('codeTextLabel')}
+          placeholder={format === 'ean13' ? t('codeTextPlaceholderEan13') : t('codeTextPlaceholder')}
+          inputMode={format === 'ean13' ? 'numeric' : undefined}
+          dir="auto"
+          className={`flex-1 min-w-0 ${inputClassName}`}
+        />
+        <button
+          onClick={handlePlace}
+          disabled={!text}
+          className="px-3 py-1 rounded-md bg-brand-primary text-white hover:bg-brand-primary/80 disabled:opacity-50 disabled:cursor-not-allowed font-semibold transition-colors"
+        >
+          {t('placeCodeButton')}
+        </button>
+      </div>
+    </fieldset>
+  );
+};
+
+export default CodeGeneratorPanel;
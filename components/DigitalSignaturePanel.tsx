@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { CloseIcon } from './Icons';
+import { useSettings } from '../contexts/SettingsContext';
+import { Layer } from '../types';
+import { SigningCredentials } from '../utils/pdfSigning';
+
+interface DigitalSignaturePanelProps {
+  /** The loaded certificate, or null until one is loaded. */
+  credentials: SigningCredentials | null;
+  /** Reads a PKCS#12 file; errors are reported by the caller. */
+  onLoadCredentials: (file: File, password: string) => Promise<void>;
+  onClearCredentials: () => void;
+  layers: Layer[];
+  /** The layer shown as the visible signature, or null for an invisible one. */
+  appearanceLayerId: string | null;
+  onAppearanceLayerChange: (layerId: string | null) => void;
+  reason: string;
+  onReasonChange: (reason: string) => void;
+  disabled: boolean;
+}
+
+/**
+ * Signs the merged PDF with a certificate from a PKCS#12 file. The file and its
+ * key are only read into memory and are never stored, so the certificate has to
+ * be loaded again after the page is reloaded.
+ */
+const DigitalSignaturePanel: React.FC<DigitalSignaturePanelProps> = ({
+  credentials,
+  onLoadCredentials,
+  onClearCredentials,
+  layers,
+  appearanceLayerId,
+  onAppearanceLayerChange,
+  reason,
+  onReasonChange,
+  disabled,
+}) => {
+  const { t, language } = useSettings();
+  const [file, setFile] = useState<File | null>(null);
+  const [password, setPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const inputClassName = 'px-2 py-1.5 bg-brand-surface border border-border-color rounded-md focus:outline-none focus:ring-brand-primary focus:border-brand-primary';
+
+  const handleLoad = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+    setIsLoading(true);
+    try {
+      await onLoadCredentials(file, password);
+    } finally {
+      // The password isn't kept, whether or not it was right
+      setPassword('');
+      setIsLoading(false);
+    }
+  };
+
+  const getLayerLabel = (layer: Layer) => {
+    const name = layer.kind === 'text'
+      ? layer.text.split('\n')[0]
+      : layer.kind === 'drawing' ? t('signatureStampName') : layer.file.name;
+    return `${name} (${t('page')} ${layer.pageIndex + 1})`;
+  };
+
+  if (!credentials) {
+    return (
+      <form onSubmit={handleLoad} className="bg-brand-surface p-4 rounded-lg shadow-lg flex flex-col gap-2 text-sm">
+        <h3 className="font-semibold">{t('digitalSignatureTitle')}</h3>
+        <p className="text-xs text-brand-text-secondary">{t('digitalSignatureHint')}</p>
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-brand-text-secondary">{t('certificateFileLabel')}</span>
+          <input
+            type="file"
+            accept=".p12,.pfx,application/x-pkcs12"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            disabled={disabled || isLoading}
+            className="text-xs file:me-2 file:px-2 file:py-1 file:rounded-md file:border-0 file:bg-overlay-bg/10 file:text-brand-text"
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-brand-text-secondary">{t('certificatePasswordLabel')}</span>
+          <input
+            type="password"
+            autoComplete="off"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            disabled={disabled || isLoading}
+            className={inputClassName}
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={!file || disabled || isLoading}
+          className="py-1.5 px-3 rounded-md border border-border-color hover:bg-brand-primary/20 disabled:opacity-50 disabled:cursor-not-allowed font-semibold transition-colors"
+        >
+          {isLoading ? t('dropzoneProcessing') : t('certificateLoadButton')}
+        </button>
+      </form>
+    );
+  }
+
+  return (
+    <fieldset className="bg-brand-surface p-4 rounded-lg shadow-lg flex flex-col gap-2 text-sm" disabled={disabled}>
+      <legend className="sr-only">{t('digitalSignatureTitle')}</legend>
+      <h3 className="font-semibold" aria-hidden="true">{t('digitalSignatureTitle')}</h3>
+      <div className="flex items-start gap-2 p-2 bg-overlay-bg/10 rounded-md">
+        <div className="flex-1 min-w-0">
+          <p className="font-medium truncate" title={credentials.signerName}>{credentials.signerName}</p>
+          <p className="text-xs text-brand-text-secondary">
+            {t('certificateValidUntil')} {credentials.validTo.toLocaleDateString(language)}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onClearCredentials}
+          className="p-1 rounded-full hover:bg-overlay-bg/10 transition-colors"
+          aria-label={t('certificateRemoveButton')}
+          title={t('certificateRemoveButton')}
+        >
+          <CloseIcon className="w-4 h-4" />
+        </button>
+      </div>
+      <label className="flex flex-col gap-1">
+        <span className="text-xs text-brand-text-secondary">{t('signatureAppearanceLabel')}</span>
+        <select
+          value={layers.some(layer => layer.id === appearanceLayerId) ? appearanceLayerId ?? '' : ''}
+          onChange={(e) => onAppearanceLayerChange(e.target.value || null)}
+          className={inputClassName}
+        >
+          <option value="">{t('signatureAppearanceInvisible')}</option>
+          {layers.map(layer => (
+            <option key={layer.id} value={layer.id}>{getLayerLabel(layer)}</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex flex-col gap-1">
+        <span className="text-xs text-brand-text-secondary">{t('signatureReasonLabel')}</span>
+        <input type="text" value={reason} onChange={(e) => onReasonChange(e.target.value)} className={inputClassName} />
+      </label>
+      <p className="text-xs text-brand-text-secondary">{t('digitalSignatureReady')}</p>
+    </fieldset>
+  );
+};
+
+export default DigitalSignaturePanel;
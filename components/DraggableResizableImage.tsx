@@ -1,104 +1,347 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useSettings } from '../contexts/SettingsContext';
+import { BlendMode } from '../types';
 
 interface DraggableResizableImageProps {
-  src: string;
+  children: React.ReactNode;
   initialPosition: { x: number; y: number };
   initialSize: { width: number; height: number };
-  onUpdate: (pos: { x: number; y: number }, size: { width: number; height: number }) => void;
+  rotation: number;
+  blendMode: BlendMode;
+  /**
+   * Called when a move or resize ends. Arrow-key nudges pass a `mergeKey`, so that
+   * holding an arrow key is undone as one step.
+   */
+  onUpdate: (pos: { x: number; y: number }, size: { width: number; height: number }, mergeKey?: string) => void;
+  onRotate: (rotation: number) => void;
   bounds: { top: number; left: number; right: number; bottom: number };
+  /** The area the box can be dragged within, if it may be dragged outside `bounds`, such as onto another page. */
+  moveBounds?: { top: number; left: number; right: number; bottom: number };
+  isSelected: boolean;
+  onSelect: () => void;
+  onDoubleClick?: () => void;
 }
 
+type ResizeHandle = 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w' | 'nw';
+
 type DragState = {
   active: boolean;
-  type: 'move' | 'resize-br';
+  type: 'move' | 'resize' | 'rotate' | 'pinch';
   offset: { x: number; y: number };
+  handle?: ResizeHandle;
+  // Pointer and geometry at the start of a resize, which is computed from the total movement
+  start?: { pointer: { x: number; y: number }; position: { x: number; y: number }; size: { width: number; height: number } };
+  // The two fingers and the geometry at the start of a pinch, which is computed from how far they moved apart and turned
+  pinch?: {
+    distance: number;
+    angle: number;
+    center: { x: number; y: number };
+    position: { x: number; y: number };
+    size: { width: number; height: number };
+    rotation: number;
+  };
 };
 
-const DraggableResizableImage: React.FC<DraggableResizableImageProps> = ({ src, initialPosition, initialSize, onUpdate, bounds }) => {
+/**
+ * The direction each handle grows the box in, in the box's own (unrotated) frame,
+ * and where the handle sits on its border.
+ */
+const RESIZE_HANDLES: { id: ResizeHandle; dx: -1 | 0 | 1; dy: -1 | 0 | 1; cursor: string }[] = [
+  { id: 'nw', dx: -1, dy: -1, cursor: 'nwse-resize' },
+  { id: 'n', dx: 0, dy: -1, cursor: 'ns-resize' },
+  { id: 'ne', dx: 1, dy: -1, cursor: 'nesw-resize' },
+  { id: 'e', dx: 1, dy: 0, cursor: 'ew-resize' },
+  { id: 'se', dx: 1, dy: 1, cursor: 'nwse-resize' },
+  { id: 's', dx: 0, dy: 1, cursor: 'ns-resize' },
+  { id: 'sw', dx: -1, dy: 1, cursor: 'nesw-resize' },
+  { id: 'w', dx: -1, dy: 0, cursor: 'ew-resize' },
+];
+
+const ROTATION_SNAP_DEGREES = 15;
+const ARROW_KEYS = ['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight'];
+const MIN_SIZE = 10;
+
+// Handles are drawn small, but on touch screens they are grabbed by a larger area around them
+const HANDLE_SIZE = { fine: 12, coarse: 18 };
+const HANDLE_HIT_SIZE = { fine: 12, coarse: 40 };
+// The distance from the top edge of the box to the center of the rotation handle
+const ROTATE_HANDLE_OFFSET = { fine: 19, coarse: 36 };
+
+/** Normalizes an angle in degrees to the range [0, 360). */
+const normalizeAngle = (angle: number) => ((angle % 360) + 360) % 360;
+
+/** The distance, angle in degrees and midpoint between two fingers. */
+const measurePinch = (a: { x: number; y: number }, b: { x: number; y: number }) => ({
+  distance: Math.hypot(b.x - a.x, b.y - a.y),
+  angle: Math.atan2(b.y - a.y, b.x - a.x) * 180 / Math.PI,
+  center: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 },
+});
+
+/** Tracks whether the main pointing device is a finger rather than a mouse or pen. */
+const useCoarsePointer = () => {
+  const [isCoarse, setIsCoarse] = useState(() => window.matchMedia('(pointer: coarse)').matches);
+  useEffect(() => {
+    const query = window.matchMedia('(pointer: coarse)');
+    const handleChange = () => setIsCoarse(query.matches);
+    query.addEventListener('change', handleChange);
+    return () => query.removeEventListener('change', handleChange);
+  }, []);
+  return isCoarse;
+};
+
+const DraggableResizableImage: React.FC<DraggableResizableImageProps> = ({
+  children,
+  initialPosition,
+  initialSize,
+  rotation: initialRotation,
+  blendMode,
+  onUpdate,
+  onRotate,
+  bounds,
+  moveBounds,
+  isSelected,
+  onSelect,
+  onDoubleClick,
+}) => {
   const { t } = useSettings();
   const [position, setPosition] = useState(initialPosition);
   const [size, setSize] = useState(initialSize);
+  const [rotation, setRotation] = useState(initialRotation);
   const [isFocused, setIsFocused] = useState(false);
+  const pointerSize = useCoarsePointer() ? 'coarse' : 'fine';
   const dragStateRef = useRef<DragState>({ active: false, type: 'move', offset: { x: 0, y: 0 } });
   const elementRef = useRef<HTMLDivElement>(null);
+  const stopDragRef = useRef<(() => void) | null>(null);
+  // The pointers pressed on the box or its handles, by pointer id, at their latest position
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+
+  // The latest geometry and props, read by the window listeners of an ongoing drag
+  const liveRef = useRef({ position, size, rotation });
+  const propsRef = useRef({ bounds, moveBounds, onUpdate, onRotate });
+  propsRef.current = { bounds, moveBounds, onUpdate, onRotate };
 
   // Sync internal state with props, crucial for reset functionality
   useEffect(() => {
     setPosition(initialPosition);
+    liveRef.current.position = initialPosition;
   }, [initialPosition]);
-  
+
   useEffect(() => {
     setSize(initialSize);
+    liveRef.current.size = initialSize;
   }, [initialSize]);
 
+  useEffect(() => {
+    setRotation(initialRotation);
+    liveRef.current.rotation = initialRotation;
+  }, [initialRotation]);
+
   const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(value, max));
 
-  const handleMouseMove = useCallback((e: MouseEvent) => {
-    if (!dragStateRef.current.active) return;
+  const handlePointerMove = (e: PointerEvent) => {
+    const pointers = pointersRef.current;
+    if (!dragStateRef.current.active || !pointers.has(e.pointerId)) return;
+    pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
 
     const { type, offset } = dragStateRef.current;
-    
+    const { bounds, moveBounds } = propsRef.current;
+    const live = liveRef.current;
+
     const parentRect = elementRef.current?.parentElement?.getBoundingClientRect();
     if (!parentRect) return;
 
     if (type === 'move') {
-      const newX = clamp(e.clientX - parentRect.left - offset.x, bounds.left, bounds.right - size.width);
-      const newY = clamp(e.clientY - parentRect.top - offset.y, bounds.top, bounds.bottom - size.height);
-      setPosition({ x: newX, y: newY });
-    } else if (type === 'resize-br') {
-      const newWidth = clamp(e.clientX - parentRect.left - position.x, 50, bounds.right - position.x);
-      const newHeight = clamp(e.clientY - parentRect.top - position.y, 50, bounds.bottom - position.y);
-      setSize({ width: newWidth, height: newHeight });
-    }
-  }, [bounds, position.x, position.y, size.width, size.height]);
+      const area = moveBounds ?? bounds;
+      const newX = clamp(e.clientX - parentRect.left - offset.x, area.left, area.right - live.size.width);
+      const newY = clamp(e.clientY - parentRect.top - offset.y, area.top, area.bottom - live.size.height);
+      live.position = { x: newX, y: newY };
+      setPosition(live.position);
+    } else if (type === 'resize') {
+      const { start, handle } = dragStateRef.current;
+      const handleSpec = RESIZE_HANDLES.find(h => h.id === handle);
+      if (!start || !handleSpec) return;
+      const { dx, dy } = handleSpec;
 
-  const handleMouseUp = useCallback(() => {
-    if (dragStateRef.current.active) {
-      onUpdate(position, size);
-      dragStateRef.current = { active: false, type: 'move', offset: { x: 0, y: 0 } };
-      window.removeEventListener('mousemove', handleMouseMove);
-      window.removeEventListener('mouseup', handleMouseUp);
-      document.body.style.cursor = 'default';
-    }
-  }, [handleMouseMove, onUpdate, position, size]);
+      // Project the pointer movement onto the box's own axes so rotated boxes resize along their edges
+      const radians = live.rotation * Math.PI / 180;
+      const cos = Math.cos(radians);
+      const sin = Math.sin(radians);
+      const moveX = e.clientX - start.pointer.x;
+      const moveY = e.clientY - start.pointer.y;
+      const localX = moveX * cos + moveY * sin;
+      const localY = -moveX * sin + moveY * cos;
 
-  const handleDragStart = (e: React.MouseEvent<HTMLDivElement>) => {
-    e.preventDefault();
-    elementRef.current?.focus();
-    const targetRect = e.currentTarget.getBoundingClientRect();
-    const parentRect = e.currentTarget.parentElement?.getBoundingClientRect();
-    if (!parentRect) return;
-    
-    dragStateRef.current = {
-      active: true,
-      type: 'move',
-      offset: { x: e.clientX - targetRect.left, y: e.clientY - targetRect.top },
-    };
-    window.addEventListener('mousemove', handleMouseMove);
-    window.addEventListener('mouseup', handleMouseUp);
+      let newWidth = Math.max(MIN_SIZE, start.size.width + dx * localX);
+      let newHeight = Math.max(MIN_SIZE, start.size.height + dy * localY);
+
+      // The aspect ratio is locked unless Shift is held
+      if (!e.shiftKey) {
+        const ratio = start.size.width / start.size.height;
+        let scale: number;
+        if (dx !== 0 && dy !== 0) scale = Math.max(newWidth / start.size.width, newHeight / start.size.height);
+        else if (dx !== 0) scale = newWidth / start.size.width;
+        else scale = newHeight / start.size.height;
+        scale = Math.max(scale, MIN_SIZE / Math.min(start.size.width, start.size.height));
+        scale = Math.min(scale, (bounds.right - bounds.left) / start.size.width, (bounds.bottom - bounds.top) / start.size.height);
+        newWidth = start.size.width * scale;
+        newHeight = newWidth / ratio;
+      } else {
+        newWidth = Math.min(newWidth, bounds.right - bounds.left);
+        newHeight = Math.min(newHeight, bounds.bottom - bounds.top);
+      }
+
+      // Keep the point opposite the handle fixed on the page
+      const rotate = (x: number, y: number) => ({ x: x * cos - y * sin, y: x * sin + y * cos });
+      const startCenter = { x: start.position.x + start.size.width / 2, y: start.position.y + start.size.height / 2 };
+      const fixedOffset = rotate(-dx * start.size.width / 2, -dy * start.size.height / 2);
+      const newFixedOffset = rotate(-dx * newWidth / 2, -dy * newHeight / 2);
+      const newCenter = {
+        x: startCenter.x + fixedOffset.x - newFixedOffset.x,
+        y: startCenter.y + fixedOffset.y - newFixedOffset.y,
+      };
+
+      live.size = { width: newWidth, height: newHeight };
+      // Growing the box can push it past the page edge, so it is kept inside like a move
+      live.position = {
+        x: clamp(newCenter.x - newWidth / 2, bounds.left, bounds.right - newWidth),
+        y: clamp(newCenter.y - newHeight / 2, bounds.top, bounds.bottom - newHeight),
+      };
+      setSize(live.size);
+      setPosition(live.position);
+    } else if (type === 'rotate') {
+      // The handle sits above the top edge, so pointing straight up means 0°
+      const centerX = parentRect.left + live.position.x + live.size.width / 2;
+      const centerY = parentRect.top + live.position.y + live.size.height / 2;
+      const angle = Math.atan2(e.clientY - centerY, e.clientX - centerX) * 180 / Math.PI + 90;
+      // Snap to 15° steps unless Shift is held
+      const snapped = e.shiftKey ? Math.round(angle) : Math.round(angle / ROTATION_SNAP_DEGREES) * ROTATION_SNAP_DEGREES;
+      live.rotation = normalizeAngle(snapped);
+      setRotation(live.rotation);
+    } else if (type === 'pinch') {
+      const { pinch } = dragStateRef.current;
+      const [a, b] = [...pointers.values()];
+      if (!pinch || !a || !b) return;
+      const { distance, angle, center } = measurePinch(a, b);
+
+      // Spreading the fingers scales the box, keeping its aspect ratio and the page as its limit
+      const scale = clamp(
+        pinch.distance > 0 ? distance / pinch.distance : 1,
+        MIN_SIZE / Math.min(pinch.size.width, pinch.size.height),
+        Math.min((bounds.right - bounds.left) / pinch.size.width, (bounds.bottom - bounds.top) / pinch.size.height),
+      );
+      const newWidth = pinch.size.width * scale;
+      const newHeight = pinch.size.height * scale;
+      // The box turns with the fingers and follows the point between them
+      const newCenter = {
+        x: pinch.position.x + pinch.size.width / 2 + center.x - pinch.center.x,
+        y: pinch.position.y + pinch.size.height / 2 + center.y - pinch.center.y,
+      };
+
+      live.size = { width: newWidth, height: newHeight };
+      live.position = {
+        x: clamp(newCenter.x - newWidth / 2, bounds.left, bounds.right - newWidth),
+        y: clamp(newCenter.y - newHeight / 2, bounds.top, bounds.bottom - newHeight),
+      };
+      live.rotation = normalizeAngle(Math.round(pinch.rotation + angle - pinch.angle));
+      setSize(live.size);
+      setPosition(live.position);
+      setRotation(live.rotation);
+    }
   };
 
-  const handleResizeStart = (e: React.MouseEvent<HTMLDivElement>) => {
+  /**
+   * Starts following a pointer pressed on the box or one of its handles. The pointer is
+   * captured, so the drag goes on when it leaves the box or the browser window.
+   * @returns False if the pointer joins a drag that is already going on.
+   */
+  const capturePointer = (e: React.PointerEvent<HTMLDivElement>) => {
     e.preventDefault();
     e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
     elementRef.current?.focus();
-    dragStateRef.current = {
-      active: true,
-      type: 'resize-br',
-      offset: { x: 0, y: 0 }, // Offset not needed for this simple resize logic
+    const pointers = pointersRef.current;
+    pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (!dragStateRef.current.active) return true;
+
+    // A second finger turns the drag into a pinch, starting from the geometry it has reached so far
+    if (e.pointerType === 'touch' && pointers.size === 2) {
+      const [a, b] = [...pointers.values()];
+      const live = liveRef.current;
+      dragStateRef.current = {
+        ...dragStateRef.current,
+        type: 'pinch',
+        pinch: { ...measurePinch(a, b), position: live.position, size: live.size, rotation: live.rotation },
+      };
+    }
+    return false;
+  };
+
+  const startDrag = (type: DragState['type'], offset: { x: number; y: number }, cursor: string, extra?: Partial<DragState>) => {
+    stopDragRef.current?.();
+    dragStateRef.current = { active: true, type, offset, ...extra };
+
+    const handlePointerUp = (e: PointerEvent) => {
+      if (!pointersRef.current.has(e.pointerId)) return;
+      const { type } = dragStateRef.current;
+      const { position, size, rotation } = liveRef.current;
+      if (type === 'rotate' || type === 'pinch') {
+        propsRef.current.onRotate(rotation);
+      }
+      if (type !== 'rotate') {
+        propsRef.current.onUpdate(position, size);
+      }
+      // Lifting either finger ends a pinch, so the other one doesn't jump into a move
+      stopDrag();
     };
-    window.addEventListener('mousemove', handleMouseMove);
-    window.addEventListener('mouseup', handleMouseUp);
-    document.body.style.cursor = 'se-resize';
+    const stopDrag = () => {
+      dragStateRef.current = { active: false, type: 'move', offset: { x: 0, y: 0 } };
+      pointersRef.current.clear();
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('pointercancel', handlePointerUp);
+      document.body.style.cursor = 'default';
+      stopDragRef.current = null;
+    };
+
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    window.addEventListener('pointercancel', handlePointerUp);
+    document.body.style.cursor = cursor;
+    stopDragRef.current = stopDrag;
+  };
+
+  const handleDragStart = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    const parentRect = e.currentTarget.parentElement?.getBoundingClientRect();
+    if (!parentRect || !capturePointer(e)) return;
+
+    // Measure the offset from the unrotated box, since the bounding rect of a rotated element is larger
+    startDrag('move', {
+      x: e.clientX - parentRect.left - position.x,
+      y: e.clientY - parentRect.top - position.y,
+    }, 'move');
+  };
+
+  const handleResizeStart = (e: React.PointerEvent<HTMLDivElement>, handle: typeof RESIZE_HANDLES[number]) => {
+    if (e.button !== 0 || !capturePointer(e)) return;
+    startDrag('resize', { x: 0, y: 0 }, handle.cursor, {
+      handle: handle.id,
+      start: { pointer: { x: e.clientX, y: e.clientY }, position, size },
+    });
+  };
+
+  const handleRotateStart = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0 || !capturePointer(e)) return;
+    startDrag('rotate', { x: 0, y: 0 }, 'grabbing');
   };
-  
   const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
-    if (!['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight'].includes(e.key)) return;
-    
+    // Keys typed into editable content, such as the text of a text stamp, must not move the box
+    if (e.target !== e.currentTarget) return;
+    if (!ARROW_KEYS.includes(e.key)) return;
+
     e.preventDefault();
     const step = e.shiftKey ? 10 : 1;
-    
+
     setPosition(prevPos => {
       let newPos = { ...prevPos };
       switch (e.key) {
@@ -109,64 +352,125 @@ const DraggableResizableImage: React.FC<DraggableResizableImageProps> = ({ src,
       }
       newPos.x = clamp(newPos.x, bounds.left, bounds.right - size.width);
       newPos.y = clamp(newPos.y, bounds.top, bounds.bottom - size.height);
+      liveRef.current.position = newPos;
       return newPos;
     });
   };
 
-  const handleInteractionEnd = useCallback(() => {
+  const handleInteractionEnd = () => {
     onUpdate(position, size);
-  }, [onUpdate, position, size]);
+  };
+
+  const handleKeyUp = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const isNudge = e.target === e.currentTarget && ARROW_KEYS.includes(e.key);
+    onUpdate(position, size, isNudge ? 'nudge' : undefined);
+  };
 
   // Clean up event listeners on unmount
   useEffect(() => {
-    return () => {
-      window.removeEventListener('mousemove', handleMouseMove);
-      window.removeEventListener('mouseup', handleMouseUp);
-    };
-  }, [handleMouseMove, handleMouseUp]);
-  
+    return () => stopDragRef.current?.();
+  }, []);
+
   return (
     <div
       ref={elementRef}
       tabIndex={0}
+      data-layer-box
       style={{
         position: 'absolute',
         left: `${position.x}px`,
         top: `${position.y}px`,
         width: `${size.width}px`,
         height: `${size.height}px`,
+        transform: `rotate(${rotation}deg)`,
+        transformOrigin: 'center',
+        // Blending is applied to the whole box, because the rotation transform
+        // isolates the image from the page canvas behind it
+        mixBlendMode: blendMode,
         cursor: 'move',
-        border: isFocused ? '2px solid #6a45ff' : '2px dashed rgba(106, 69, 255, 0.7)',
+        border: isFocused || isSelected ? '2px solid #6a45ff' : '2px dashed rgba(106, 69, 255, 0.7)',
         boxSizing: 'border-box',
         outline: 'none',
         transition: 'border-color 0.2s ease-in-out',
+        // Dragging the box must not scroll or zoom the page underneath
+        touchAction: 'none',
       }}
-      onMouseDown={handleDragStart}
+      onPointerDown={handleDragStart}
+      onDoubleClick={onDoubleClick}
       onKeyDown={handleKeyDown}
-      onKeyUp={handleInteractionEnd}
-      onFocus={() => setIsFocused(true)}
+      onKeyUp={handleKeyUp}
+      onFocus={() => {
+        setIsFocused(true);
+        onSelect();
+      }}
       onBlur={() => {
         setIsFocused(false);
         handleInteractionEnd();
       }}
     >
-      <img src={src} alt={t('draggableImageAlt')} style={{ width: '100%', height: '100%', objectFit: 'contain' }} draggable="false" />
-      <div
-        style={{
-          position: 'absolute',
-          bottom: '-6px',
-          right: '-6px',
-          width: '12px',
-          height: '12px',
-          backgroundColor: '#6a45ff',
-          border: '2px solid white',
-          borderRadius: '50%',
-          cursor: 'se-resize',
-        }}
-        onMouseDown={handleResizeStart}
-      />
+      {children}
+      {(isFocused || isSelected) && (
+        <div
+          style={{
+            position: 'absolute',
+            top: `-${ROTATE_HANDLE_OFFSET[pointerSize] + HANDLE_HIT_SIZE[pointerSize] / 2}px`,
+            left: '50%',
+            width: `${HANDLE_HIT_SIZE[pointerSize]}px`,
+            height: `${HANDLE_HIT_SIZE[pointerSize]}px`,
+            marginLeft: `-${HANDLE_HIT_SIZE[pointerSize] / 2}px`,
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            cursor: 'grab',
+            touchAction: 'none',
+          }}
+          title={t('rotateTooltip')}
+          onPointerDown={handleRotateStart}
+        >
+          <div
+            style={{
+              flexShrink: 0,
+              width: `${HANDLE_SIZE[pointerSize] + 2}px`,
+              height: `${HANDLE_SIZE[pointerSize] + 2}px`,
+              backgroundColor: 'white',
+              border: '2px solid #6a45ff',
+              borderRadius: '50%',
+            }}
+          />
+        </div>
+      )}
+      {RESIZE_HANDLES.map(handle => (
+        <div
+          key={handle.id}
+          style={{
+            position: 'absolute',
+            left: `calc(${(handle.dx + 1) * 50}% - ${HANDLE_HIT_SIZE[pointerSize] / 2}px)`,
+            top: `calc(${(handle.dy + 1) * 50}% - ${HANDLE_HIT_SIZE[pointerSize] / 2}px)`,
+            width: `${HANDLE_HIT_SIZE[pointerSize]}px`,
+            height: `${HANDLE_HIT_SIZE[pointerSize]}px`,
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            cursor: handle.cursor,
+            touchAction: 'none',
+          }}
+          title={t('resizeTooltip')}
+          onPointerDown={(e) => handleResizeStart(e, handle)}
+        >
+          <div
+            style={{
+              flexShrink: 0,
+              width: `${HANDLE_SIZE[pointerSize]}px`,
+              height: `${HANDLE_SIZE[pointerSize]}px`,
+              backgroundColor: '#6a45ff',
+              border: '2px solid white',
+              borderRadius: '50%',
+            }}
+          />
+        </div>
+      ))}
     </div>
   );
 };
 
-export default DraggableResizableImage;
\ No newline at end of file
+export default DraggableResizableImage;
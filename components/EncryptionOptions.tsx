@@ -0,0 +1,55 @@
+import React from 'react';
+import { useSettings } from '../contexts/SettingsContext';
+import { OutputEncryption } from '../types';
+
+interface EncryptionOptionsProps {
+  value: OutputEncryption;
+  onChange: (value: OutputEncryption) => void;
+  disabled: boolean;
+}
+
+/** Lets the user keep the password of an encrypted PDF on the merged copy, or set a new one. */
+const EncryptionOptions: React.FC<EncryptionOptionsProps> = ({ value, onChange, disabled }) => {
+  const { t } = useSettings();
+
+  return (
+    <fieldset className="bg-brand-surface p-4 rounded-lg shadow-lg flex flex-col gap-2 text-sm" disabled={disabled}>
+      <legend className="sr-only">{t('encryptionTitle')}</legend>
+      <h3 className="font-semibold" aria-hidden="true">{t('encryptionTitle')}</h3>
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="radio"
+          name="output-encryption"
+          checked={value.mode === 'keep'}
+          onChange={() => onChange({ mode: 'keep' })}
+          className="accent-brand-primary"
+        />
+        <span>{t('encryptionKeepOption')}</span>
+      </label>
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="radio"
+          name="output-encryption"
+          checked={value.mode === 'new'}
+          onChange={() => onChange({ mode: 'new', password: '' })}
+          className="accent-brand-primary"
+        />
+        <span>{t('encryptionNewOption')}</span>
+      </label>
+      {value.mode === 'new' && (
+        <label className="flex flex-col gap-1 ps-6">
+          <span className="text-xs text-brand-text-secondary">{t('encryptionNewPasswordLabel')}</span>
+          <input
+            type="password"
+            autoComplete="new-password"
+            value={value.password}
+            onChange={(e) => onChange({ mode: 'new', password: e.target.value })}
+            className="px-2 py-1.5 bg-brand-surface border border-border-color rounded-md focus:outline-none focus:ring-brand-primary focus:border-brand-primary"
+          />
+        </label>
+      )}
+    </fieldset>
+  );
+};
+
+export default EncryptionOptions;
@@ -7,11 +7,12 @@ interface FileDropzoneProps {
   accept: { [key: string]: string[] };
   file: File | null;
   prompt: string;
-  fileType: 'PDF' | 'Image';
+  fileType: 'PDF' | 'Image' | 'Pages';
+  multiple?: boolean;
   disabled?: boolean;
 }
 
-const FileDropzone: React.FC<FileDropzoneProps> = ({ onDrop, accept, file, prompt, fileType, disabled = false }) => {
+const FileDropzone: React.FC<FileDropzoneProps> = ({ onDrop, accept, file, prompt, fileType, multiple = false, disabled = false }) => {
   const [isDragActive, setIsDragActive] = useState(false);
   const { t } = useSettings();
 
@@ -44,7 +45,8 @@ const FileDropzone: React.FC<FileDropzoneProps> = ({ onDrop, accept, file, promp
   };
 
   const inputId = `file-input-${fileType.toLowerCase()}`;
-  const acceptString = Object.keys(accept).join(',');
+  // Extensions are listed too, since some systems report no MIME type for formats such as TIFF
+  const acceptString = Object.keys(accept).flatMap(type => [type, ...accept[type]]).join(',');
 
   return (
     <div className="bg-brand-surface p-4 rounded-lg shadow-lg">
@@ -61,7 +63,7 @@ const FileDropzone: React.FC<FileDropzoneProps> = ({ onDrop, accept, file, promp
         <UploadIcon className="w-8 h-8 mb-2 text-brand-text-secondary" />
         <p className="font-semibold text-brand-text">{prompt}</p>
         <p className="text-xs text-brand-text-secondary">{t('dropzoneOrClick')}</p>
-        <input id={inputId} type="file" className="hidden" onChange={handleChange} accept={acceptString} disabled={disabled} />
+        <input id={inputId} type="file" className="hidden" onChange={handleChange} accept={acceptString} multiple={multiple} disabled={disabled} />
       </label>
       {file && (
         <div className="mt-4 p-3 bg-overlay-bg/10 rounded-md flex items-center gap-3 text-sm">
@@ -0,0 +1,67 @@
+import React from 'react';
+import { useSettings } from '../contexts/SettingsContext';
+import { ImagePageOptions, ImagePageSize } from '../types';
+
+const PAGE_SIZE_OPTIONS: { value: ImagePageSize; labelKey: 'imagePageSizeA4' | 'imagePageSizeLetter' | 'imagePageSizeFit' }[] = [
+  { value: 'a4', labelKey: 'imagePageSizeA4' },
+  { value: 'letter', labelKey: 'imagePageSizeLetter' },
+  { value: 'fit', labelKey: 'imagePageSizeFit' },
+];
+
+interface ImagePageSettingsProps {
+  value: ImagePageOptions;
+  onChange: (value: ImagePageOptions) => void;
+  disabled: boolean;
+}
+
+/** Sets up how images added to the document are laid out on their pages. */
+const ImagePageSettings: React.FC<ImagePageSettingsProps> = ({ value, onChange, disabled }) => {
+  const { t } = useSettings();
+  const inputClassName = 'px-2 py-1.5 bg-brand-surface border border-border-color rounded-md focus:outline-none focus:ring-brand-primary focus:border-brand-primary';
+
+  return (
+    <fieldset className="bg-brand-surface p-4 rounded-lg shadow-lg flex flex-col gap-2 text-sm" disabled={disabled}>
+      <legend className="sr-only">{t('imagePagesTitle')}</legend>
+      <h3 className="font-semibold" aria-hidden="true">{t('imagePagesTitle')}</h3>
+      <p className="text-xs text-brand-text-secondary">{t('imagePagesHint')}</p>
+      <div className="flex gap-2">
+        <label className="flex flex-col gap-1 flex-1 min-w-0">
+          <span className="text-xs text-brand-text-secondary">{t('imagePageSizeLabel')}</span>
+          <select
+            value={value.pageSize}
+            onChange={(e) => onChange({ ...value, pageSize: e.target.value as ImagePageSize })}
+            className={inputClassName}
+          >
+            {PAGE_SIZE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{t(option.labelKey)}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 w-24">
+          <span className="text-xs text-brand-text-secondary">{t('imagePageMarginLabel')}</span>
+          <input
+            type="number"
+            min={0}
+            max={50}
+            value={value.margin}
+            onChange={(e) => onChange({ ...value, margin: Math.max(0, Number(e.target.value) || 0) })}
+            className={inputClassName}
+          />
+        </label>
+      </div>
+      <label className={`flex items-center gap-2 ${value.pageSize === 'fit' ? 'opacity-50' : 'cursor-pointer'}`}>
+        <input
+          type="checkbox"
+          checked={value.autoOrientation}
+          onChange={(e) => onChange({ ...value, autoOrientation: e.target.checked })}
+          // A page the size of the image always has its orientation
+          disabled={value.pageSize === 'fit'}
+          className="accent-brand-primary"
+        />
+        <span>{t('imagePageAutoOrientation')}</span>
+      </label>
+    </fieldset>
+  );
+};
+
+export default ImagePageSettings;
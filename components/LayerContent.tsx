@@ -0,0 +1,96 @@
+import React from 'react';
+import { useSettings } from '../contexts/SettingsContext';
+import { Layer, TextLayer } from '../types';
+import { LINE_HEIGHT, TEXT_FONTS } from '../utils/fonts';
+import { strokesToPathsByColor } from '../utils/signature';
+
+interface LayerContentProps {
+  layer: Layer;
+  /** The height the layer is displayed at, in pixels. Text is scaled to match it. */
+  displayHeight: number;
+  isEditing?: boolean;
+  onTextChange?: (text: string) => void;
+  onEditEnd?: () => void;
+}
+
+/**
+ * Renders what a layer looks like on the page: its image, its signature strokes,
+ * its SVG shapes, or its text laid out the same way the merge writes it.
+ */
+const LayerContent: React.FC<LayerContentProps> = ({ layer, displayHeight, isEditing = false, onTextChange, onEditEnd }) => {
+  const { t } = useSettings();
+
+  if (layer.kind === 'image') {
+    return <img src={layer.objectUrl} alt={t('draggableImageAlt')} style={{ width: '100%', height: '100%', objectFit: 'contain', opacity: layer.opacity }} draggable="false" />;
+  }
+
+  if (layer.kind === 'drawing') {
+    const { width, height } = layer.contentSize;
+    return (
+      <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none" style={{ width: '100%', height: '100%', display: 'block', opacity: layer.opacity }}>
+        {strokesToPathsByColor(layer.strokes).map(({ color, path }) => <path key={color} d={path} fill={color} />)}
+      </svg>
+    );
+  }
+
+  if (layer.kind === 'vector') {
+    const { width, height } = layer.contentSize;
+    return (
+      <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none" style={{ width: '100%', height: '100%', display: 'block', opacity: layer.opacity }}>
+        {layer.shapes.map((shape, index) => (
+          <path
+            key={index}
+            d={shape.path}
+            transform={`matrix(${shape.transform.join(' ')})`}
+            fill={shape.fill ?? 'none'}
+            fillOpacity={shape.fillOpacity}
+            stroke={shape.stroke ?? 'none'}
+            strokeOpacity={shape.strokeOpacity}
+            strokeWidth={shape.strokeWidth}
+            strokeLinecap={shape.lineCap}
+            strokeLinejoin={shape.lineJoin}
+            strokeDasharray={shape.dashArray.length > 0 ? shape.dashArray.join(' ') : undefined}
+            strokeDashoffset={shape.dashOffset}
+          />
+        ))}
+      </svg>
+    );
+  }
+
+  const textStyle = getTextStyle(layer, displayHeight);
+  if (isEditing) {
+    return (
+      <textarea
+        autoFocus
+        value={layer.text}
+        onChange={(e) => onTextChange?.(e.target.value)}
+        onBlur={onEditEnd}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') onEditEnd?.();
+        }}
+        onPointerDown={(e) => e.stopPropagation()}
+        aria-label={t('editTextLabel')}
+        style={{ ...textStyle, background: 'transparent', border: 'none', outline: 'none', resize: 'none', padding: 0, overflow: 'hidden', cursor: 'text' }}
+      />
+    );
+  }
+  return <div style={textStyle}>{layer.text}</div>;
+};
+
+const getTextStyle = (layer: TextLayer, displayHeight: number): React.CSSProperties => ({
+  width: '100%',
+  height: '100%',
+  margin: 0,
+  fontFamily: `"${TEXT_FONTS[layer.fontFamily].cssFamily}"`,
+  fontSize: `${layer.fontSize * displayHeight / layer.size.height}px`,
+  lineHeight: LINE_HEIGHT,
+  color: layer.color,
+  textAlign: layer.align,
+  whiteSpace: 'pre',
+  // Each line takes its direction from its first strong character, like the merge does
+  unicodeBidi: 'plaintext',
+  opacity: layer.opacity,
+  userSelect: 'none',
+});
+
+export default LayerContent;
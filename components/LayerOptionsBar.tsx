@@ -0,0 +1,277 @@
+import React from 'react';
+import { AlignLeftIcon, AlignCenterIcon, AlignRightIcon } from './Icons';
+import { useSettings } from '../contexts/SettingsContext';
+import { BlendMode, FontFamily, Layer, LayerChanges, PageSelectionMode, PlacementAnchor, Size, TextAlign, TilingPattern } from '../types';
+import { parsePageRange } from '../utils/pageRange';
+import { getActualSize } from '../utils/imageInfo';
+import { TEXT_FONTS } from '../utils/fonts';
+import { getDiagonalPlacement } from '../utils/tiling';
+import { PLACEMENT_ANCHORS } from '../utils/placement';
+
+interface LayerOptionsBarProps {
+  layer: Layer;
+  pageCount: number;
+  /** The size of the page the layer is on, in points. */
+  pageSize: Size;
+  onChange: (changes: LayerChanges) => void;
+  /** Opens the background removal settings of an image layer. */
+  onEditBackground: () => void;
+  disabled?: boolean;
+}
+
+const PAGE_SELECTION_MODES: PageSelectionMode[] = ['current', 'all', 'odd', 'even', 'custom'];
+const BLEND_MODES: BlendMode[] = ['normal', 'multiply'];
+const TEXT_ALIGNMENTS: { align: TextAlign; Icon: typeof AlignLeftIcon }[] = [
+  { align: 'left', Icon: AlignLeftIcon },
+  { align: 'center', Icon: AlignCenterIcon },
+  { align: 'right', Icon: AlignRightIcon },
+];
+const MIN_FONT_SIZE = 4;
+const TILING_PATTERNS: TilingPattern[] = ['grid', 'diagonal'];
+// The gap between watermark copies when tiling is turned on, in points
+const DEFAULT_TILE_SPACING = 36;
+
+const LayerOptionsBar: React.FC<LayerOptionsBarProps> = ({ layer, pageCount, pageSize, onChange, onEditBackground, disabled = false }) => {
+  const { t } = useSettings();
+  const { pageSelection } = layer;
+  const isRangeInvalid = pageSelection.mode === 'custom' && parsePageRange(pageSelection.range, pageCount) === null;
+
+  const modeLabels: Record<PageSelectionMode, string> = {
+    current: t('pagesCurrent'),
+    all: t('pagesAll'),
+    odd: t('pagesOdd'),
+    even: t('pagesEven'),
+    custom: t('pagesCustom'),
+  };
+
+  const anchorLabels: Record<PlacementAnchor, string> = {
+    relative: t('anchorRelative'),
+    'top-left': t('anchorTopLeft'),
+    'top-right': t('anchorTopRight'),
+    'bottom-left': t('anchorBottomLeft'),
+    'bottom-right': t('anchorBottomRight'),
+  };
+
+  const blendModeLabels: Record<BlendMode, string> = {
+    normal: t('blendNormal'),
+    multiply: t('blendMultiply'),
+  };
+
+  const handleRotationChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseFloat(e.target.value);
+    if (Number.isNaN(value)) return;
+    onChange({ rotation: ((value % 360) + 360) % 360 });
+  };
+
+  const handleFontSizeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseFloat(e.target.value);
+    if (Number.isNaN(value) || value < MIN_FONT_SIZE) return;
+    onChange({ fontSize: value });
+  };
+
+  const tilingLabels: Record<TilingPattern | 'none', string> = {
+    none: t('tilingNone'),
+    grid: t('tilingGrid'),
+    diagonal: t('tilingDiagonal'),
+  };
+
+  const handleTilingChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const pattern = e.target.value as TilingPattern | 'none';
+    if (pattern === 'none') {
+      onChange({ tiling: null });
+      return;
+    }
+    const tiling = { pattern, spacing: layer.tiling?.spacing ?? DEFAULT_TILE_SPACING };
+    // A diagonal row starts out across the middle of the page, from corner to corner
+    onChange(pattern === 'diagonal' && layer.tiling?.pattern !== 'diagonal'
+      ? { tiling, ...getDiagonalPlacement(layer.size, pageSize) }
+      : { tiling });
+  };
+
+  const handleTileSpacingChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseFloat(e.target.value);
+    if (Number.isNaN(value) || value < 0 || !layer.tiling) return;
+    onChange({ tiling: { ...layer.tiling, spacing: value } });
+  };
+
+  const alignLabels: Record<TextAlign, string> = {
+    left: t('alignLeft'),
+    center: t('alignCenter'),
+    right: t('alignRight'),
+  };
+
+  return (
+    <div className="flex-shrink-0 bg-brand-surface/70 backdrop-blur-sm px-3 py-2 flex flex-wrap items-center gap-3 border-t border-border-color text-sm">
+      {layer.kind === 'text' && (
+        <>
+          <select
+            value={layer.fontFamily}
+            onChange={(e) => onChange({ fontFamily: e.target.value as FontFamily })}
+            disabled={disabled}
+            aria-label={t('fontFamilyLabel')}
+            className="px-2 py-1 bg-brand-surface border border-border-color rounded-md focus:outline-none focus:ring-brand-primary focus:border-brand-primary"
+          >
+            {(Object.keys(TEXT_FONTS) as FontFamily[]).map(family => (
+              <option key={family} value={family}>{TEXT_FONTS[family].label}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min={MIN_FONT_SIZE}
+            step={1}
+            value={Math.round(layer.fontSize)}
+            onChange={handleFontSizeChange}
+            disabled={disabled}
+            aria-label={t('fontSizeLabel')}
+            title={t('fontSizeLabel')}
+            className="w-16 px-2 py-1 bg-brand-surface border border-border-color rounded-md focus:outline-none focus:ring-brand-primary focus:border-brand-primary"
+          />
+          <input
+            type="color"
+            value={layer.color}
+            onChange={(e) => onChange({ color: e.target.value })}
+            disabled={disabled}
+            aria-label={t('textColorLabel')}
+            title={t('textColorLabel')}
+            className="w-8 h-8 p-0 bg-transparent border border-border-color rounded-md cursor-pointer"
+          />
+          <div className="flex items-center gap-1" role="group" aria-label={t('textAlignLabel')}>
+            {TEXT_ALIGNMENTS.map(({ align, Icon }) => (
+              <button
+                key={align}
+                onClick={() => onChange({ align })}
+                disabled={disabled}
+                aria-pressed={layer.align === align}
+                title={alignLabels[align]}
+                className={`p-1.5 rounded-md transition-colors disabled:opacity-50 ${layer.align === align ? 'bg-brand-primary text-white' : 'hover:bg-brand-primary/20'}`}
+              >
+                <Icon className="w-4 h-4" />
+              </button>
+            ))}
+          </div>
+          <span className="text-xs text-brand-text-secondary">{t('editTextHint')}</span>
+        </>
+      )}
+      <label htmlFor="page-selection-mode" className="font-medium text-brand-text-secondary">{t('stampOnPages')}</label>
+      <select
+        id="page-selection-mode"
+        value={pageSelection.mode}
+        onChange={(e) => onChange({ pageSelection: { ...pageSelection, mode: e.target.value as PageSelectionMode } })}
+        disabled={disabled}
+        className="px-2 py-1 bg-brand-surface border border-border-color rounded-md focus:outline-none focus:ring-brand-primary focus:border-brand-primary"
+      >
+        {PAGE_SELECTION_MODES.map(mode => (
+          <option key={mode} value={mode}>{modeLabels[mode]}</option>
+        ))}
+      </select>
+      {pageSelection.mode === 'custom' && (
+        <input
+          type="text"
+          value={pageSelection.range}
+          onChange={(e) => onChange({ pageSelection: { ...pageSelection, range: e.target.value } })}
+          placeholder={t('pageRangePlaceholder')}
+          aria-invalid={isRangeInvalid}
+          title={isRangeInvalid ? t('errorInvalidPageRange') : undefined}
+          disabled={disabled}
+          className={`w-40 px-2 py-1 bg-brand-surface border rounded-md focus:outline-none focus:ring-brand-primary ${isRangeInvalid ? 'border-red-500' : 'border-border-color focus:border-brand-primary'}`}
+        />
+      )}
+      <label htmlFor="placement-anchor" className="font-medium text-brand-text-secondary">{t('anchorLabel')}</label>
+      <select
+        id="placement-anchor"
+        value={layer.anchor}
+        onChange={(e) => onChange({ anchor: e.target.value as PlacementAnchor })}
+        disabled={disabled}
+        className="px-2 py-1 bg-brand-surface border border-border-color rounded-md focus:outline-none focus:ring-brand-primary focus:border-brand-primary"
+      >
+        {PLACEMENT_ANCHORS.map(anchor => (
+          <option key={anchor} value={anchor}>{anchorLabels[anchor]}</option>
+        ))}
+      </select>
+      {layer.kind === 'image' && (
+        <button
+          onClick={() => onChange({ size: getActualSize(layer.imageInfo) })}
+          disabled={disabled}
+          title={t('actualSizeTooltip')}
+          className="px-2 py-1 rounded-md border border-border-color hover:bg-brand-primary/20 disabled:opacity-50 transition-colors"
+        >
+          {t('actualSizeButton')}
+        </button>
+      )}
+      {layer.kind === 'image' && (
+        <button
+          onClick={onEditBackground}
+          disabled={disabled}
+          title={t('backgroundTooltip')}
+          className="px-2 py-1 rounded-md border border-border-color hover:bg-brand-primary/20 disabled:opacity-50 transition-colors"
+        >
+          {t('backgroundButton')}
+        </button>
+      )}
+      <label htmlFor="layer-rotation" className="font-medium text-brand-text-secondary">{t('rotationLabel')}</label>
+      <input
+        id="layer-rotation"
+        type="number"
+        min={0}
+        max={359}
+        step={1}
+        value={Math.round(layer.rotation)}
+        onChange={handleRotationChange}
+        disabled={disabled}
+        className="w-16 px-2 py-1 bg-brand-surface border border-border-color rounded-md focus:outline-none focus:ring-brand-primary focus:border-brand-primary"
+      />
+      <label htmlFor="layer-tiling" className="font-medium text-brand-text-secondary">{t('tilingLabel')}</label>
+      <select
+        id="layer-tiling"
+        value={layer.tiling?.pattern ?? 'none'}
+        onChange={handleTilingChange}
+        disabled={disabled}
+        className="px-2 py-1 bg-brand-surface border border-border-color rounded-md focus:outline-none focus:ring-brand-primary focus:border-brand-primary"
+      >
+        {(['none', ...TILING_PATTERNS] as const).map(pattern => (
+          <option key={pattern} value={pattern}>{tilingLabels[pattern]}</option>
+        ))}
+      </select>
+      {layer.tiling && (
+        <input
+          type="number"
+          min={0}
+          step={1}
+          value={Math.round(layer.tiling.spacing)}
+          onChange={handleTileSpacingChange}
+          disabled={disabled}
+          aria-label={t('tileSpacingLabel')}
+          title={t('tileSpacingLabel')}
+          className="w-16 px-2 py-1 bg-brand-surface border border-border-color rounded-md focus:outline-none focus:ring-brand-primary focus:border-brand-primary"
+        />
+      )}
+      <label htmlFor="layer-opacity" className="font-medium text-brand-text-secondary">{t('opacityLabel')}</label>
+      <input
+        id="layer-opacity"
+        type="range"
+        min={0.05}
+        max={1}
+        step={0.05}
+        value={layer.opacity}
+        onChange={(e) => onChange({ opacity: parseFloat(e.target.value) })}
+        disabled={disabled}
+        className="w-24 accent-brand-primary"
+      />
+      <span className="w-10 text-brand-text-secondary">{Math.round(layer.opacity * 100)}%</span>
+      <label htmlFor="layer-blend-mode" className="font-medium text-brand-text-secondary">{t('blendModeLabel')}</label>
+      <select
+        id="layer-blend-mode"
+        value={layer.blendMode}
+        onChange={(e) => onChange({ blendMode: e.target.value as BlendMode })}
+        disabled={disabled}
+        className="px-2 py-1 bg-brand-surface border border-border-color rounded-md focus:outline-none focus:ring-brand-primary focus:border-brand-primary"
+      >
+        {BLEND_MODES.map(mode => (
+          <option key={mode} value={mode}>{blendModeLabels[mode]}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default LayerOptionsBar;
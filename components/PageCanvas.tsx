@@ -0,0 +1,101 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+
+// The same limit pdf.js uses; larger canvases are rendered below the device pixel ratio instead
+const MAX_CANVAS_PIXELS = 16777216;
+// Waits for zooming to settle before the page is rendered at the new size
+const RENDER_DEBOUNCE_MS = 100;
+
+interface PageCanvasProps {
+  /** The pdf.js document the page belongs to. */
+  pdfDoc: any;
+  /** The page to show, starting at 1. */
+  pageNumber: number;
+  /** Degrees clockwise the page is turned on top of its own rotation, as in the page organizer. */
+  rotation?: number;
+  /** Screen pixels per PDF point. */
+  scale: number;
+  pixelRatio: number;
+  onPointerDown?: () => void;
+}
+
+/**
+ * Renders a PDF page to fill its parent, which sets the size it is shown at.
+ * A spinner covers the page until it is first rendered; after that, zooming keeps
+ * showing the previous rendering until the new one is ready.
+ */
+const PageCanvas: React.FC<PageCanvasProps> = ({ pdfDoc, pageNumber, rotation = 0, scale, pixelRatio, onPointerDown }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  // The page currently on the canvas, so a new page can be told apart from a new zoom level
+  const renderRef = useRef<{ generation: number; task: any; shown: { doc: any; pageNumber: number; rotation: number } | null }>({ generation: 0, task: null, shown: null });
+
+  const isShown = (doc: any, number: number, turn: number) => {
+    const { shown } = renderRef.current;
+    return shown?.doc === doc && shown.pageNumber === number && shown.rotation === turn;
+  };
+
+  const renderPage = useCallback(async (renderScale: number, ratio: number) => {
+    const render = renderRef.current;
+    const generation = ++render.generation;
+    if (!isShown(pdfDoc, pageNumber, rotation)) setIsLoading(true);
+    try {
+      const page = await pdfDoc.getPage(pageNumber);
+      if (generation !== render.generation) return;
+      render.task?.cancel();
+
+      const viewport = page.getViewport({ scale: renderScale, rotation: (page.rotate + rotation) % 360 });
+      // Render at the device pixel ratio so small print is sharp on high-DPI screens
+      const outputScale = Math.min(ratio, Math.sqrt(MAX_CANVAS_PIXELS / (viewport.width * viewport.height)));
+      const buffer = document.createElement('canvas');
+      buffer.width = Math.floor(viewport.width * outputScale);
+      buffer.height = Math.floor(viewport.height * outputScale);
+      const context = buffer.getContext('2d');
+      if (!context) return;
+      render.task = page.render({
+        canvasContext: context,
+        viewport,
+        transform: [outputScale, 0, 0, outputScale, 0, 0],
+      });
+      await render.task.promise;
+
+      // Copy the finished rendering over, since resizing the visible canvas would blank it while rendering
+      const canvas = canvasRef.current;
+      if (!canvas || generation !== render.generation) return;
+      canvas.width = buffer.width;
+      canvas.height = buffer.height;
+      canvas.getContext('2d')?.drawImage(buffer, 0, 0);
+      render.shown = { doc: pdfDoc, pageNumber, rotation };
+      setIsLoading(false);
+    } catch (error: any) {
+      if (error?.name !== 'RenderingCancelledException') console.error('Error rendering page:', error);
+    }
+  }, [pdfDoc, pageNumber, rotation]);
+
+  useEffect(() => {
+    const delay = isShown(pdfDoc, pageNumber, rotation) ? RENDER_DEBOUNCE_MS : 0;
+    const timer = setTimeout(() => renderPage(scale, pixelRatio), delay);
+    return () => clearTimeout(timer);
+  }, [pdfDoc, pageNumber, rotation, scale, pixelRatio, renderPage]);
+
+  // Pages scrolled out of view are unmounted; stop rendering them
+  useEffect(() => {
+    const render = renderRef.current;
+    return () => {
+      render.generation++;
+      render.task?.cancel();
+    };
+  }, []);
+
+  return (
+    <>
+      <canvas ref={canvasRef} className="rounded-md shadow-lg bg-white" style={{ width: '100%', height: '100%' }} onPointerDown={onPointerDown} />
+      {isLoading && (
+        <div className="absolute inset-0 rounded-md bg-brand-surface/80 flex items-center justify-center">
+          <div className="w-10 h-10 border-4 border-white/25 border-t-brand-primary rounded-full animate-spin"></div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default PageCanvas;
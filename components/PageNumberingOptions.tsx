@@ -0,0 +1,104 @@
+import React from 'react';
+import { useSettings } from '../contexts/SettingsContext';
+import { NumberingPosition, PageNumbering } from '../types';
+import { getPageNumberLabels } from '../utils/pageNumbering';
+
+const NUMBERING_POSITIONS: NumberingPosition[] = ['top-left', 'top-center', 'top-right', 'bottom-left', 'bottom-center', 'bottom-right'];
+const MIN_FONT_SIZE = 4;
+const MAX_PADDING = 12;
+
+interface PageNumberingOptionsProps {
+  value: PageNumbering;
+  onChange: (value: PageNumbering) => void;
+  disabled: boolean;
+}
+
+/** Turns on page or Bates numbering and sets up what the numbers look like and where they go. */
+const PageNumberingOptions: React.FC<PageNumberingOptionsProps> = ({ value, onChange, disabled }) => {
+  const { t } = useSettings();
+  const inputClassName = 'px-2 py-1.5 bg-brand-surface border border-border-color rounded-md focus:outline-none focus:ring-brand-primary focus:border-brand-primary';
+
+  const positionLabels: Record<NumberingPosition, string> = {
+    'top-left': t('anchorTopLeft'),
+    'top-center': t('numberingTopCenter'),
+    'top-right': t('anchorTopRight'),
+    'bottom-left': t('anchorBottomLeft'),
+    'bottom-center': t('numberingBottomCenter'),
+    'bottom-right': t('anchorBottomRight'),
+  };
+
+  /** Applies a whole number typed into a field, ignoring input that isn't one or is below `min`. */
+  const handleNumberChange = (key: 'start' | 'padding' | 'fontSize' | 'skipPages', min: number, max = Infinity) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const number = parseInt(e.target.value, 10);
+    if (Number.isNaN(number) || number < min) return;
+    onChange({ ...value, [key]: Math.min(number, max) });
+  };
+
+  // Shows what the first number will look like
+  const example = getPageNumberLabels({ ...value, skipPages: 0 }, 1)[0];
+
+  return (
+    <fieldset className="bg-brand-surface p-4 rounded-lg shadow-lg flex flex-col gap-2 text-sm" disabled={disabled}>
+      <legend className="sr-only">{t('numberingTitle')}</legend>
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={value.enabled}
+          onChange={(e) => onChange({ ...value, enabled: e.target.checked })}
+          className="accent-brand-primary"
+        />
+        <span className="font-semibold">{t('numberingTitle')}</span>
+      </label>
+      {value.enabled && (
+        <div className="flex flex-col gap-2 ps-6">
+          <p className="text-xs text-brand-text-secondary">{t('numberingHint')}</p>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="flex flex-col gap-1 col-span-2">
+              <span className="text-xs text-brand-text-secondary">{t('numberingPrefixLabel')}</span>
+              <input
+                type="text"
+                value={value.prefix}
+                onChange={(e) => onChange({ ...value, prefix: e.target.value })}
+                placeholder={t('numberingPrefixPlaceholder')}
+                className={inputClassName}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-xs text-brand-text-secondary">{t('numberingStartLabel')}</span>
+              <input type="number" min={0} value={value.start} onChange={handleNumberChange('start', 0)} className={inputClassName} />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-xs text-brand-text-secondary">{t('numberingPaddingLabel')}</span>
+              <input type="number" min={0} max={MAX_PADDING} value={value.padding} onChange={handleNumberChange('padding', 0, MAX_PADDING)} className={inputClassName} />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-xs text-brand-text-secondary">{t('fontSizeLabel')}</span>
+              <input type="number" min={MIN_FONT_SIZE} value={value.fontSize} onChange={handleNumberChange('fontSize', MIN_FONT_SIZE)} className={inputClassName} />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-xs text-brand-text-secondary">{t('numberingSkipLabel')}</span>
+              <input type="number" min={0} value={value.skipPages} onChange={handleNumberChange('skipPages', 0)} className={inputClassName} />
+            </label>
+            <label className="flex flex-col gap-1 col-span-2">
+              <span className="text-xs text-brand-text-secondary">{t('numberingPositionLabel')}</span>
+              <select
+                value={value.position}
+                onChange={(e) => onChange({ ...value, position: e.target.value as NumberingPosition })}
+                className={inputClassName}
+              >
+                {NUMBERING_POSITIONS.map(position => (
+                  <option key={position} value={position}>{positionLabels[position]}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <p className="text-xs text-brand-text-secondary">
+            {t('numberingExampleLabel')} <span dir="auto" className="font-mono text-brand-text">{example}</span>
+          </p>
+        </div>
+      )}
+    </fieldset>
+  );
+};
+
+export default PageNumberingOptions;
@@ -0,0 +1,175 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import PageThumbnail, { ThumbnailCache } from './PageThumbnail';
+import { AddPageIcon, ClearIcon, RotateLeftIcon, RotateRightIcon } from './Icons';
+import { useSettings } from '../contexts/SettingsContext';
+import { OrganizedPage, Size } from '../types';
+
+// Each page is fitted into a square of this size, in CSS pixels
+const FRAME_SIZE = 136;
+// Thumbnails start rendering a little before they scroll into view
+const VISIBILITY_MARGIN = '200px';
+// Set on the drag data, so a page can't be dropped onto the editor as a stamp or the other way around
+const PAGE_DRAG_TYPE = 'application/x-organized-page';
+
+interface PageOrganizerProps {
+  /** The pdf.js document to render the thumbnails from. */
+  pdfDoc: any;
+  pages: OrganizedPage[];
+  /** The displayed size of each page, in points. */
+  pageSizes: Size[];
+  /** The number of layers stamped on each page, by page index. */
+  stampCounts: number[];
+  /** Opens a page in the editor, starting at 1. */
+  onOpenPage: (pageNumber: number) => void;
+  /** Moves a page so it ends up at index `to`. */
+  onMove: (from: number, to: number) => void;
+  onRotate: (index: number, direction: 1 | -1) => void;
+  onDelete: (index: number) => void;
+  /** Inserts a blank page at an index, the size of the page before it. */
+  onInsertBlank: (index: number) => void;
+  disabled: boolean;
+}
+
+/**
+ * A grid of all pages of the document, where pages are reordered by dragging and
+ * can be turned, removed, or have a blank page inserted after them.
+ */
+const PageOrganizer: React.FC<PageOrganizerProps> = ({
+  pdfDoc,
+  pages,
+  pageSizes,
+  stampCounts,
+  onOpenPage,
+  onMove,
+  onRotate,
+  onDelete,
+  onInsertBlank,
+  disabled,
+}) => {
+  const { t } = useSettings();
+  const gridRef = useRef<HTMLDivElement>(null);
+  // Only the thumbnails near the view are rendered, by page id
+  const [visibleIds, setVisibleIds] = useState<Set<string>>(new Set());
+  const [drag, setDrag] = useState<{ from: number; insertAt: number | null } | null>(null);
+  const cache = useMemo<ThumbnailCache>(() => new Map(), [pdfDoc]);
+
+  useEffect(() => {
+    const grid = gridRef.current;
+    if (!grid) return;
+    const observer = new IntersectionObserver(entries => {
+      setVisibleIds(prev => {
+        const next = new Set(prev);
+        entries.forEach(entry => {
+          const id = (entry.target as HTMLElement).dataset.pageId;
+          if (!id) return;
+          if (entry.isIntersecting) next.add(id);
+          else next.delete(id);
+        });
+        return next;
+      });
+    }, { root: grid.parentElement, rootMargin: VISIBILITY_MARGIN });
+    grid.querySelectorAll('[data-page-id]').forEach(card => observer.observe(card));
+    return () => observer.disconnect();
+  }, [pages]);
+
+  /** Works out whether a page dragged over a card goes before or after it, by the half of the card it is over. */
+  const getInsertIndex = (e: React.DragEvent<HTMLElement>, index: number) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const isRtl = getComputedStyle(e.currentTarget).direction === 'rtl';
+    const isFirstHalf = isRtl ? e.clientX > rect.left + rect.width / 2 : e.clientX < rect.left + rect.width / 2;
+    return isFirstHalf ? index : index + 1;
+  };
+
+  const handleDrop = () => {
+    if (!drag || drag.insertAt === null) return;
+    // Taking the page out first shifts the pages after it back by one
+    const to = drag.insertAt > drag.from ? drag.insertAt - 1 : drag.insertAt;
+    onMove(drag.from, to);
+  };
+
+  const buttonClassName = 'p-1 rounded-md hover:bg-brand-primary/20 disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+
+  return (
+    <div className="flex-grow min-w-0 overflow-auto p-4">
+      <p className="text-xs text-brand-text-secondary mb-3">{t('organizerHint')}</p>
+      <div ref={gridRef} className="flex flex-wrap gap-4" role="list" aria-label={t('organizePagesTooltip')}>
+        {pages.map((page, index) => {
+          const size = pageSizes[index];
+          const fit = Math.min(FRAME_SIZE / size.width, FRAME_SIZE / size.height);
+          const width = Math.round(size.width * fit);
+          const stampCount = stampCounts[index] ?? 0;
+          const isDragged = drag?.from === index;
+          return (
+            <div
+              key={page.id}
+              data-page-id={page.id}
+              role="listitem"
+              draggable={!disabled}
+              onDragStart={(e) => {
+                e.dataTransfer.setData(PAGE_DRAG_TYPE, String(index));
+                e.dataTransfer.effectAllowed = 'move';
+                setDrag({ from: index, insertAt: null });
+              }}
+              onDragOver={(e) => {
+                if (!drag || !e.dataTransfer.types.includes(PAGE_DRAG_TYPE)) return;
+                e.preventDefault();
+                e.dataTransfer.dropEffect = 'move';
+                const insertAt = getInsertIndex(e, index);
+                if (insertAt !== drag.insertAt) setDrag({ ...drag, insertAt });
+              }}
+              onDrop={(e) => {
+                if (!e.dataTransfer.types.includes(PAGE_DRAG_TYPE)) return;
+                e.preventDefault();
+                handleDrop();
+              }}
+              onDragEnd={() => setDrag(null)}
+              className={`relative flex flex-col items-center gap-1 p-2 rounded-md bg-overlay-bg/5 ${isDragged ? 'opacity-40' : ''} ${disabled ? '' : 'cursor-grab'}`}
+            >
+              {drag?.insertAt === index && <div className="absolute -start-2.5 top-2 bottom-2 w-1 rounded-full bg-brand-primary" />}
+              {drag?.insertAt === index + 1 && <div className="absolute -end-2.5 top-2 bottom-2 w-1 rounded-full bg-brand-primary" />}
+              <button
+                onClick={() => onOpenPage(index + 1)}
+                aria-label={`${t('page')} ${index + 1}`}
+                className="flex items-center justify-center"
+                style={{ width: FRAME_SIZE, height: FRAME_SIZE }}
+              >
+                <div
+                  className="relative overflow-hidden rounded-sm shadow hover:ring-2 hover:ring-brand-primary/40 transition-shadow"
+                  style={{ width, height: Math.round(size.height * fit) }}
+                >
+                  {visibleIds.has(page.id) && <PageThumbnail pdfDoc={pdfDoc} page={page} width={width} cache={cache} />}
+                  {stampCount > 0 && (
+                    <span
+                      className="absolute top-1 right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-brand-primary text-white text-xs font-semibold flex items-center justify-center shadow"
+                      title={`${t('thumbnailStampCount')}: ${stampCount}`}
+                    >
+                      {stampCount}
+                    </span>
+                  )}
+                </div>
+              </button>
+              <span className="text-xs leading-4 text-brand-text-secondary">{index + 1}</span>
+              <div className="flex items-center gap-0.5">
+                <button onClick={() => onRotate(index, -1)} disabled={disabled} className={buttonClassName} title={t('rotatePageLeftTooltip')}>
+                  <RotateLeftIcon className="w-4 h-4" />
+                </button>
+                <button onClick={() => onRotate(index, 1)} disabled={disabled} className={buttonClassName} title={t('rotatePageRightTooltip')}>
+                  <RotateRightIcon className="w-4 h-4" />
+                </button>
+                <button onClick={() => onInsertBlank(index + 1)} disabled={disabled} className={buttonClassName} title={t('insertBlankPageTooltip')}>
+                  <AddPageIcon className="w-4 h-4" />
+                </button>
+                {/* A document can't be left without pages */}
+                <button onClick={() => onDelete(index)} disabled={disabled || pages.length === 1} className={buttonClassName} title={t('deletePageTooltip')}>
+                  <ClearIcon className="w-4 h-4 text-brand-secondary" />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PageOrganizer;
@@ -0,0 +1,79 @@
+import React, { useEffect, useState } from 'react';
+import { OrganizedPage } from '../types';
+
+// Thumbnails only start rendering once they stay in view, so fast scrolling doesn't queue every page
+const RENDER_DELAY_MS = 120;
+
+/** Rendered thumbnails of a document, by the page and rotation they show. */
+export type ThumbnailCache = Map<string, Promise<string>>;
+
+/** Renders a page at thumbnail size and resolves to an image URL. */
+const renderThumbnail = async (pdfDoc: any, pageNumber: number, rotation: number, width: number): Promise<string> => {
+  const page = await pdfDoc.getPage(pageNumber);
+  const turned = (page.rotate + rotation) % 360;
+  const unscaled = page.getViewport({ scale: 1, rotation: turned });
+  const viewport = page.getViewport({ scale: width * (window.devicePixelRatio || 1) / unscaled.width, rotation: turned });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.floor(viewport.width);
+  canvas.height = Math.floor(viewport.height);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Could not get canvas context');
+  await page.render({ canvasContext: context, viewport }).promise;
+  return canvas.toDataURL('image/png');
+};
+
+interface PageThumbnailProps {
+  /** The pdf.js document the page belongs to. */
+  pdfDoc: any;
+  page: OrganizedPage;
+  /** The width the thumbnail is shown at, in CSS pixels. */
+  width: number;
+  cache: ThumbnailCache;
+}
+
+/**
+ * Shows a small rendering of a page, turned as it was in the page organizer.
+ * Each page is rendered once per rotation and width, the first time it is shown.
+ */
+const PageThumbnail: React.FC<PageThumbnailProps> = ({ pdfDoc, page, width, cache }) => {
+  const [src, setSrc] = useState<string | null>(null);
+  const sourceIndex = page.kind === 'original' ? page.sourceIndex : null;
+
+  useEffect(() => {
+    if (sourceIndex === null) return;
+    let cancelled = false;
+    const pageNumber = sourceIndex + 1;
+    const key = `${pageNumber}:${page.rotation}:${width}`;
+    const show = (promise: Promise<string>) => promise.then(
+      url => !cancelled && setSrc(url),
+      err => console.error(`Thumbnail of page ${pageNumber} failed:`, err),
+    );
+    const cached = cache.get(key);
+    if (cached) {
+      show(cached);
+      return () => {
+        cancelled = true;
+      };
+    }
+    // A page that was just turned shows as loading, rather than stretched in its old orientation
+    setSrc(null);
+    const timer = setTimeout(() => {
+      const promise = renderThumbnail(pdfDoc, pageNumber, page.rotation, width);
+      cache.set(key, promise);
+      // Let a failed thumbnail be tried again the next time it scrolls into view
+      promise.catch(() => cache.delete(key));
+      show(promise);
+    }, RENDER_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [pdfDoc, sourceIndex, page.rotation, width, cache]);
+
+  if (sourceIndex === null) return <div className="w-full h-full bg-white" />;
+  return src
+    ? <img src={src} alt="" draggable="false" className="w-full h-full object-cover object-top" />
+    : <div className="w-full h-full bg-white/80 animate-pulse" />;
+};
+
+export default PageThumbnail;
@@ -0,0 +1,126 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import PageThumbnail, { ThumbnailCache } from './PageThumbnail';
+import { useSettings } from '../contexts/SettingsContext';
+import { OrganizedPage, Size } from '../types';
+
+const THUMBNAIL_WIDTH = 96;
+// Very tall pages are cropped to this height, so a single page can't take over the strip
+const MAX_THUMBNAIL_HEIGHT = 160;
+// The page number below each thumbnail and the gap to the next one
+const LABEL_HEIGHT = 20;
+const ITEM_GAP = 12;
+// Thumbnails rendered above and below the visible ones, so scrolling doesn't show blanks
+const OVERSCAN = 3;
+
+interface PageThumbnailsProps {
+  /** The pdf.js document to render the thumbnails from. */
+  pdfDoc: any;
+  /** The pages as organized, in the order they are shown. */
+  pages: OrganizedPage[];
+  pageSizes: Size[];
+  /** The page shown in the editor, starting at 1. */
+  currentPage: number;
+  onSelectPage: (pageNumber: number) => void;
+  /** The number of layers stamped on each page, by page index. */
+  stampCounts: number[];
+}
+
+const getThumbnailHeight = (size: Size) => Math.min(MAX_THUMBNAIL_HEIGHT, THUMBNAIL_WIDTH * size.height / size.width);
+
+/**
+ * A scrolling strip of page thumbnails. Only the thumbnails in view are mounted,
+ * and each page is rendered once, the first time it is shown.
+ */
+const PageThumbnails: React.FC<PageThumbnailsProps> = ({ pdfDoc, pages, pageSizes, currentPage, onSelectPage, stampCounts }) => {
+  const { t } = useSettings();
+  const scrollRef = useRef<HTMLElement>(null);
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+  // Rendered thumbnails of the current document, kept while it stays open
+  const cache = useMemo<ThumbnailCache>(() => new Map(), [pdfDoc]);
+
+  // The top of every item, plus the total height at the end
+  const offsets = useMemo(() => {
+    const result = [0];
+    pageSizes.forEach(size => result.push(result[result.length - 1] + getThumbnailHeight(size) + LABEL_HEIGHT + ITEM_GAP));
+    return result;
+  }, [pageSizes]);
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    const update = () => setViewport({ top: element.scrollTop, height: element.clientHeight });
+    const observer = new ResizeObserver(update);
+    observer.observe(element);
+    element.addEventListener('scroll', update, { passive: true });
+    return () => {
+      observer.disconnect();
+      element.removeEventListener('scroll', update);
+    };
+  }, []);
+
+  // Keep the current page in view when it is changed from elsewhere, such as the page arrows
+  useEffect(() => {
+    const element = scrollRef.current;
+    const index = currentPage - 1;
+    if (!element || index >= pageSizes.length) return;
+    const top = offsets[index];
+    const bottom = offsets[index + 1] - ITEM_GAP;
+    if (top < element.scrollTop) element.scrollTop = top;
+    else if (bottom > element.scrollTop + element.clientHeight) element.scrollTop = bottom - element.clientHeight;
+  }, [currentPage, offsets, pageSizes.length]);
+
+  /** Returns the index of the item at a vertical offset, by binary search. */
+  const findIndex = (offset: number) => {
+    let low = 0;
+    let high = pageSizes.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (offsets[middle] <= offset) low = middle;
+      else high = middle - 1;
+    }
+    return low;
+  };
+  const first = Math.max(0, findIndex(viewport.top) - OVERSCAN);
+  const last = Math.min(pageSizes.length - 1, findIndex(viewport.top + viewport.height) + OVERSCAN);
+  const visibleIndices = pageSizes.length > 0 ? Array.from({ length: last - first + 1 }, (_, i) => first + i) : [];
+
+  return (
+    <nav ref={scrollRef} aria-label={t('thumbnailsLabel')} className="h-full shrink-0 overflow-y-auto px-3 py-3 border-e border-border-color" style={{ scrollbarGutter: 'stable' }}>
+      <div style={{ position: 'relative', width: THUMBNAIL_WIDTH, height: offsets[offsets.length - 1] }}>
+        {visibleIndices.map(index => {
+          const pageNumber = index + 1;
+          const isCurrent = pageNumber === currentPage;
+          const stampCount = stampCounts[index] ?? 0;
+          return (
+            <button
+              key={pages[index].id}
+              onClick={() => onSelectPage(pageNumber)}
+              aria-current={isCurrent ? 'page' : undefined}
+              aria-label={`${t('page')} ${pageNumber}`}
+              className="absolute left-0 flex flex-col items-center gap-1 group"
+              style={{ top: offsets[index], width: THUMBNAIL_WIDTH }}
+            >
+              <div
+                className={`relative w-full overflow-hidden rounded-sm shadow transition-shadow ${isCurrent ? 'ring-2 ring-brand-primary' : 'group-hover:ring-2 group-hover:ring-brand-primary/40'}`}
+                style={{ height: getThumbnailHeight(pageSizes[index]) }}
+              >
+                <PageThumbnail pdfDoc={pdfDoc} page={pages[index]} width={THUMBNAIL_WIDTH} cache={cache} />
+                {stampCount > 0 && (
+                  <span
+                    className="absolute top-1 right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-brand-primary text-white text-xs font-semibold flex items-center justify-center shadow"
+                    title={`${t('thumbnailStampCount')}: ${stampCount}`}
+                  >
+                    {stampCount}
+                  </span>
+                )}
+              </div>
+              <span className={`text-xs leading-4 ${isCurrent ? 'font-semibold text-brand-primary' : 'text-brand-text-secondary'}`}>{pageNumber}</span>
+            </button>
+          );
+        })}
+      </div>
+    </nav>
+  );
+};
+
+export default PageThumbnails;
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { TranslationKey, useSettings } from '../contexts/SettingsContext';
+import { CloseIcon } from './Icons';
+
+/**
+ * Why a password is asked for: to open the PDF, or to lift the owner's restriction
+ * on changing it, each after a first try that didn't match.
+ */
+export type PasswordReason = 'required' | 'incorrect' | 'owner' | 'owner-incorrect';
+
+const MESSAGES: Record<PasswordReason, TranslationKey> = {
+  required: 'passwordRequiredMessage',
+  incorrect: 'passwordIncorrectMessage',
+  owner: 'ownerPasswordMessage',
+  'owner-incorrect': 'ownerPasswordIncorrectMessage',
+};
+
+interface PasswordDialogProps {
+  fileName: string;
+  reason: PasswordReason;
+  onSubmit: (password: string) => void;
+  onCancel: () => void;
+}
+
+/** A modal asking for the password of an encrypted PDF. */
+const PasswordDialog: React.FC<PasswordDialogProps> = ({ fileName, reason, onSubmit, onCancel }) => {
+  const { t } = useSettings();
+  const [password, setPassword] = useState('');
+  const isRetry = reason === 'incorrect' || reason === 'owner-incorrect';
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(password);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" role="dialog" aria-modal="true" aria-labelledby="password-dialog-title">
+      <form onSubmit={handleSubmit} className="w-full max-w-md bg-brand-surface text-brand-text rounded-lg shadow-2xl border border-border-color">
+        <div className="p-4 border-b border-border-color flex items-center justify-between">
+          <h3 id="password-dialog-title" className="font-semibold">{t('passwordDialogTitle')}</h3>
+          <button type="button" onClick={onCancel} className="p-1 rounded-full hover:bg-overlay-bg/10 transition-colors" aria-label={t('passwordCancelButton')}>
+            <CloseIcon className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="p-4 flex flex-col gap-3 text-sm">
+          <p className="font-medium break-all">{fileName}</p>
+          <p className={isRetry ? 'text-red-400' : 'text-brand-text-secondary'} role={isRetry ? 'alert' : undefined}>{t(MESSAGES[reason])}</p>
+          <label className="flex flex-col gap-1">
+            <span>{t('passwordLabel')}</span>
+            <input
+              type="password"
+              autoFocus
+              autoComplete="off"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="px-2 py-1.5 bg-brand-surface border border-border-color rounded-md focus:outline-none focus:ring-brand-primary focus:border-brand-primary"
+            />
+          </label>
+        </div>
+        <div className="p-4 border-t border-border-color flex justify-end gap-2 text-sm">
+          <button type="button" onClick={onCancel} className="px-3 py-1.5 rounded-md bg-overlay-bg/10 hover:bg-overlay-bg/20 transition-colors">
+            {t('passwordCancelButton')}
+          </button>
+          <button type="submit" disabled={password === ''} className="px-3 py-1.5 rounded-md bg-brand-primary text-white hover:bg-brand-primary/90 disabled:opacity-50 font-semibold transition-colors">
+            {t('passwordSubmitButton')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default PasswordDialog;
@@ -1,7 +1,24 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { ArrowLeftIcon, ArrowRightIcon, DownloadIcon, ResetIcon, ClearIcon } from './Icons';
+import React, { useState, useEffect, useLayoutEffect, useRef, useCallback, useMemo } from 'react';
+import { ArrowLeftIcon, ArrowRightIcon, DownloadIcon, ResetIcon, ClearIcon, DuplicateIcon, BringForwardIcon, SendBackwardIcon, UndoIcon, RedoIcon, ZoomInIcon, ZoomOutIcon, FitWidthIcon, FitPageIcon, ContinuousScrollIcon, OrganizePagesIcon } from './Icons';
 import DraggableResizableImage from './DraggableResizableImage';
-import { useSettings } from '../contexts/SettingsContext';
+import LayerOptionsBar from './LayerOptionsBar';
+import LayerContent from './LayerContent';
+import PageThumbnails from './PageThumbnails';
+import PageCanvas from './PageCanvas';
+import PageOrganizer from './PageOrganizer';
+import PasswordDialog, { PasswordReason } from './PasswordDialog';
+import { TranslationKey, useSettings } from '../contexts/SettingsContext';
+import { Layer, LayerChanges, OrganizedPage, PageNumbering, PdfProtection, Point, Size } from '../types';
+import { resolvePageSelection } from '../utils/pageRange';
+import { mapPlacementToPage } from '../utils/placement';
+import { getTilePositions } from '../utils/tiling';
+import { NUMBERING_FONT, NUMBERING_MARGIN, getPageNumberLabels } from '../utils/pageNumbering';
+import { LINE_HEIGHT, TEXT_FONTS } from '../utils/fonts';
+import { createPageGeometry, getDisplaySize } from '../utils/pageGeometry';
+import { STAMP_DRAG_TYPE } from '../utils/stampLibrary';
+import { canModifyContent, isPdfPassword } from '../utils/pdfSecurity';
+import { getSignedFieldNames } from '../utils/mergePdf';
+import { createPageList, getOrganizedPageSize, insertBlankPage, movePage, remapLayers, rotateLayers, rotatePage } from '../utils/pageOrganization';
 
 // pdfjs-dist is not imported via npm, so we use a dynamic import from a CDN.
 // This is a common pattern when ESM modules are loaded from URLs.
@@ -10,157 +27,979 @@ pdfjsLibPromise.then(pdfjsLib => {
     pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://unpkg.com/pdfjs-dist@4.3.136/build/pdf.worker.min.mjs';
 });
 
+/** How the zoom level is chosen: fitted to the available space, or set by the user. */
+type ZoomMode = 'fit-width' | 'fit-page' | 'custom';
+
+/** Whether one page is shown at a time, or all pages below each other. */
+type ViewMode = 'single' | 'continuous';
+
+// Zoom levels are in screen pixels per PDF point
+const MIN_ZOOM = 0.25;
+const MAX_ZOOM = 8;
+const ZOOM_STEP = 1.25;
+// How strongly Ctrl+wheel zooms, per pixel scrolled
+const WHEEL_ZOOM_SPEED = 0.002;
+// The padding around the page, which fitting leaves free
+const PAGE_MARGIN = 16;
+// The space between pages in the continuous view, in points so it scales with the pages
+const PAGE_GAP = 12;
+// Pages rendered above and below the visible ones in the continuous view
+const OVERSCAN_PAGES = 1;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(value, max));
+
 interface PdfEditorProps {
   pdfFile: File;
-  image: { url: string; position: { x: number; y: number }; size: { width: number; height: number }; } | null;
-  onImageUpdate: (pos: { x: number; y: number }, size: { width: number; height: number }) => void;
+  layers: Layer[];
+  /** The pages as arranged in the page organizer, or null while they are as in the file. */
+  pages: OrganizedPage[] | null;
+  /** Shown on the pages as they will be numbered in the merged PDF. */
+  pageNumbering: PageNumbering;
+  /** The number of the first numbered page, which carries on from the files before this one in a batch. */
+  firstPageNumber: number;
+  /**
+   * Called when pages are reordered, turned, removed or inserted, with the new
+   * arrangement and the update that makes the layers follow their pages.
+   */
+  onPagesChange: (pages: OrganizedPage[], updateLayers: (layers: Layer[]) => Layer[]) => void;
+  selectedLayerId: string | null;
+  onSelectLayer: (id: string | null) => void;
+  /** Called when a layer is moved or resized, with the page it was dragged onto if that changed. */
+  onLayerUpdate: (id: string, pos: Point, size: Size, pageIndex?: number, mergeKey?: string) => void;
+  onLayerChange: (id: string, changes: LayerChanges) => void;
+  onLayerDuplicate: () => void;
+  onLayerReorder: (direction: 1 | -1) => void;
   onImageReset: () => void;
   onImageClear: () => void;
-  onMerge: (pageIndex: number, scale: number) => void;
+  onImageBackgroundEdit: () => void;
+  onPageChange: (pageIndex: number) => void;
+  /** Called once the PDF is open, with the passwords it was opened with, or null if it isn't encrypted. */
+  onProtectionChange: (protection: PdfProtection | null) => void;
+  /** Called once the PDF is open, with the names of its signature fields that have been signed. */
+  onSignedFieldsChange: (names: string[]) => void;
+  /** Called once the PDF is open, with the number of pages in the file. */
+  onPageCountChange: (pageCount: number) => void;
+  /** Called when the PDF can't be opened, including when its password dialog is cancelled. */
+  onLoadError: (messageKey: TranslationKey) => void;
+  /** Called when a library stamp is dropped on a page, with the drop point in points. */
+  onStampDrop: (stampId: string, pageIndex: number, center: Point) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onMerge: () => void;
+  /** Whether there is anything to merge: layers, page changes or a signature. */
+  canMerge: boolean;
   isProcessing: boolean;
 }
 
-const PdfEditor: React.FC<PdfEditorProps> = ({ pdfFile, image, onImageUpdate, onMerge, isProcessing, onImageReset, onImageClear }) => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+const PdfEditor: React.FC<PdfEditorProps> = ({
+  pdfFile,
+  layers,
+  pages,
+  pageNumbering,
+  firstPageNumber,
+  onPagesChange,
+  selectedLayerId,
+  onSelectLayer,
+  onLayerUpdate,
+  onLayerChange,
+  onLayerDuplicate,
+  onLayerReorder,
+  onMerge,
+  canMerge,
+  isProcessing,
+  onImageReset,
+  onImageClear,
+  onImageBackgroundEdit,
+  onPageChange,
+  onProtectionChange,
+  onSignedFieldsChange,
+  onPageCountChange,
+  onLoadError,
+  onStampDrop,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
+}) => {
   const containerRef = useRef<HTMLDivElement>(null);
+  const pageRef = useRef<HTMLDivElement>(null);
   const { t } = useSettings();
   const [pdfDoc, setPdfDoc] = useState<any>(null);
   const [currentPage, setCurrentPage] = useState(1);
-  const [totalPages, setTotalPages] = useState(0);
+  // The go-to-page field, which may hold an unfinished number while it is typed
+  const [pageInput, setPageInput] = useState('1');
+  // The displayed size of each page of the file, before the page organizer
+  const [sourceSizes, setSourceSizes] = useState<Size[]>([]);
+  const [isOrganizing, setIsOrganizing] = useState(false);
+  const [editingLayerId, setEditingLayerId] = useState<string | null>(null);
+  const [zoomMode, setZoomMode] = useState<ZoomMode>('fit-width');
+  const [viewMode, setViewMode] = useState<ViewMode>('single');
+  // The pages mounted in the continuous view, by index
+  const [visiblePages, setVisiblePages] = useState({ first: 0, last: 0 });
   const [scale, setScale] = useState(1.0);
+  const [containerSize, setContainerSize] = useState<Size>({ width: 0, height: 0 });
+  const [pixelRatio, setPixelRatio] = useState(window.devicePixelRatio || 1);
+  const [isSpaceHeld, setIsSpaceHeld] = useState(false);
+  const [isPanning, setIsPanning] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  // The open password dialog; `attempt` remounts it for every try, so the field starts out empty
+  const [passwordPrompt, setPasswordPrompt] = useState<{ reason: PasswordReason; resolve: (password: string | null) => void; attempt: number } | null>(null);
+  const passwordAttemptRef = useRef(0);
+  // The zoom level of the latest request, ahead of the state while wheel events arrive faster than renders
+  const scaleRef = useRef(scale);
+  // The point of the page to keep under the pointer once the new zoom level is laid out
+  const zoomAnchorRef = useRef<{ pagePoint: Point; client: Point } | null>(null);
+  // The page a jump scrolled to, which stays current although more of another page may be in view
+  const scrollTargetRef = useRef<number | null>(null);
+  const pendingJumpRef = useRef<number | null>(null);
+  const stopPanRef = useRef<(() => void) | null>(null);
 
-  const renderPage = useCallback(async (pageNumber: number) => {
-    if (!pdfDoc) return;
-    setIsLoading(true);
-    const page = await pdfDoc.getPage(pageNumber);
-    const canvas = canvasRef.current;
-    const container = containerRef.current;
-    if (!canvas || !container) return;
-
-    const containerWidth = container.clientWidth;
-    const viewport = page.getViewport({ scale: 1.0 });
-    const calculatedScale = containerWidth / viewport.width;
-    setScale(calculatedScale);
-    const scaledViewport = page.getViewport({ scale: calculatedScale });
-
-    const context = canvas.getContext('2d');
-    canvas.height = scaledViewport.height;
-    canvas.width = scaledViewport.width;
-    
-    if (context) {
-        const renderContext = {
-            canvasContext: context,
-            viewport: scaledViewport,
-        };
-        await page.render(renderContext).promise;
+  const originalPages = useMemo(() => createPageList(sourceSizes.length), [sourceSizes]);
+  const pageList = pages ?? originalPages;
+  const pageSizes = useMemo(() => pageList.map(page => getOrganizedPageSize(page, sourceSizes)), [pageList, sourceSizes]);
+  const totalPages = pageSizes.length;
+  const pageSize = pageSizes[currentPage - 1];
+
+  // The top of each page in the continuous view, in points, and the size of the whole column
+  const layout = useMemo(() => {
+    const tops: number[] = [];
+    let height = 0;
+    pageSizes.forEach((size, index) => {
+      tops.push(height);
+      height += size.height + (index < pageSizes.length - 1 ? PAGE_GAP : 0);
+    });
+    const width = Math.max(0, ...pageSizes.map(size => size.width));
+    const maxHeight = Math.max(0, ...pageSizes.map(size => size.height));
+    return { tops, width, height, maxHeight };
+  }, [pageSizes]);
+
+  /** Returns the left edge of a page in the continuous view, in points; narrower pages are centered. */
+  const getPageLeft = useCallback((pageIndex: number) => (layout.width - pageSizes[pageIndex].width) / 2, [layout, pageSizes]);
+
+  /** Returns the page of the continuous view at a height in points, counting half of each gap to either page. */
+  const findPageAt = useCallback((y: number) => {
+    let low = 0;
+    let high = layout.tops.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (layout.tops[middle] - PAGE_GAP / 2 <= y) low = middle;
+      else high = middle - 1;
     }
-    setIsLoading(false);
-  }, [pdfDoc]);
+    return low;
+  }, [layout]);
+
+  /** Shows the password dialog and resolves to the password entered, or null if it was cancelled. */
+  const askPassword = useCallback((reason: PasswordReason) => new Promise<string | null>(resolve => {
+    setPasswordPrompt({ reason, resolve, attempt: ++passwordAttemptRef.current });
+  }), []);
+
+  // Kept in a ref so that new callbacks, such as after switching the language, don't reopen the file
+  const loadCallbacksRef = useRef({ onProtectionChange, onSignedFieldsChange, onPageCountChange, onLoadError });
+  loadCallbacksRef.current = { onProtectionChange, onSignedFieldsChange, onPageCountChange, onLoadError };
 
   useEffect(() => {
+    // Cleared when another file is opened, so an earlier load that is still waiting stops there
+    let isCurrent = true;
+    const { onProtectionChange, onSignedFieldsChange, onPageCountChange, onLoadError } = loadCallbacksRef.current;
     const loadPdf = async () => {
       try {
         const pdfjsLib = await pdfjsLibPromise;
+        let userPassword = '';
+        let isCancelled = false;
         const loadingTask = pdfjsLib.getDocument(URL.createObjectURL(pdfFile));
-        const doc = await loadingTask.promise;
+        // pdf.js calls back again with INCORRECT_PASSWORD until the password matches
+        loadingTask.onPassword = async (updatePassword: (password: string) => void, reason: number) => {
+          const password = await askPassword(reason === pdfjsLib.PasswordResponses.INCORRECT_PASSWORD ? 'incorrect' : 'required');
+          if (password === null) {
+            isCancelled = true;
+            loadingTask.destroy();
+            return;
+          }
+          userPassword = password;
+          updatePassword(password);
+        };
+
+        let doc: any;
+        try {
+          doc = await loadingTask.promise;
+        } catch (error) {
+          if (!isCurrent) return;
+          if (isCancelled) {
+            onLoadError('errorPdfPasswordCancelled');
+            return;
+          }
+          throw error;
+        }
+
+        // Only encrypted files have permissions; stamping needs the owner password if changes are restricted
+        const permissions: number[] | null = await doc.getPermissions();
+        let ownerPassword: string | null = null;
+        if (permissions && !canModifyContent(permissions)) {
+          const pdfBytes = await pdfFile.arrayBuffer();
+          let reason: PasswordReason = 'owner';
+          while (ownerPassword === null) {
+            const password = await askPassword(reason);
+            if (!isCurrent) return;
+            if (password === null) {
+              doc.destroy();
+              onLoadError('errorPdfRestricted');
+              return;
+            }
+            // The user password opens the file too, but it doesn't lift the restrictions
+            if (password !== userPassword && await isPdfPassword(pdfBytes, password)) {
+              ownerPassword = password;
+            } else {
+              reason = 'owner-incorrect';
+            }
+          }
+        }
+
+        const pdfPages = await Promise.all(
+          Array.from({ length: doc.numPages }, (_, index) => doc.getPage(index + 1))
+        );
+        const protection = permissions ? { userPassword, ownerPassword, permissions } : null;
+        // Read with pdf-lib like the merge; a file it can't read only goes without the warning
+        let signedFieldNames: string[] = [];
+        try {
+          signedFieldNames = await getSignedFieldNames(await pdfFile.arrayBuffer(), protection);
+        } catch (error) {
+          console.error('Error reading signature fields:', error);
+        }
+        if (!isCurrent) return;
+        // The merge reads the same boxes and rotation, so layers land where they are shown
+        setSourceSizes(pdfPages.map(page => {
+          const viewport = page.getViewport({ scale: 1.0 });
+          return getDisplaySize(createPageGeometry(viewport.viewBox, null, viewport.rotation));
+        }));
         setPdfDoc(doc);
-        setTotalPages(doc.numPages);
         setCurrentPage(1);
+        onProtectionChange(protection);
+        onSignedFieldsChange(signedFieldNames);
+        onPageCountChange(doc.numPages);
       } catch (error) {
         console.error('Error loading PDF:', error);
+        if (isCurrent) onLoadError('errorPdfLoad');
+      } finally {
+        if (isCurrent) setIsLoading(false);
       }
     };
+    setIsLoading(true);
+    onProtectionChange(null);
+    onSignedFieldsChange([]);
     loadPdf();
-  }, [pdfFile]);
+    return () => {
+      isCurrent = false;
+      // A password dialog still open for the previous file is closed as if cancelled
+      setPasswordPrompt(prev => {
+        prev?.resolve(null);
+        return null;
+      });
+    };
+  }, [pdfFile, askPassword]);
 
   useEffect(() => {
-    if (pdfDoc) {
-      renderPage(currentPage);
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => {
+      setContainerSize({ width: container.clientWidth, height: container.clientHeight });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // The pixel ratio changes with the browser zoom and when the window moves to another screen
+  useEffect(() => {
+    const query = window.matchMedia(`(resolution: ${pixelRatio}dppx)`);
+    const handleChange = () => setPixelRatio(window.devicePixelRatio || 1);
+    query.addEventListener('change', handleChange);
+    return () => query.removeEventListener('change', handleChange);
+  }, [pixelRatio]);
+
+  // The continuous view fits its widest and tallest pages, so the zoom doesn't change while scrolling
+  const fitSize = viewMode === 'continuous' ? { width: layout.width, height: layout.maxHeight } : pageSize;
+
+  useLayoutEffect(() => {
+    if (zoomMode === 'custom' || !fitSize || fitSize.width === 0 || containerSize.width === 0) return;
+    const fitWidth = (containerSize.width - PAGE_MARGIN * 2) / fitSize.width;
+    const fitHeight = (containerSize.height - PAGE_MARGIN * 2) / fitSize.height;
+    const fitted = clamp(zoomMode === 'fit-page' ? Math.min(fitWidth, fitHeight) : fitWidth, MIN_ZOOM, MAX_ZOOM);
+    scaleRef.current = fitted;
+    setScale(fitted);
+  }, [zoomMode, fitSize?.width, fitSize?.height, containerSize]);
+
+  // Scroll so the anchored point of the page stays under the pointer at the new zoom level
+  useLayoutEffect(() => {
+    const anchor = zoomAnchorRef.current;
+    const container = containerRef.current;
+    const pageElement = pageRef.current;
+    zoomAnchorRef.current = null;
+    if (!anchor || !container || !pageElement) return;
+    const rect = pageElement.getBoundingClientRect();
+    container.scrollLeft += rect.left + anchor.pagePoint.x * scale - anchor.client.x;
+    container.scrollTop += rect.top + anchor.pagePoint.y * scale - anchor.client.y;
+  }, [scale]);
+
+  /**
+   * Works out which pages of the continuous view are in sight: those are rendered,
+   * and the one taking up most of the view becomes the current page.
+   */
+  const updateVisiblePages = useCallback(() => {
+    const container = containerRef.current;
+    const column = pageRef.current;
+    if (viewMode !== 'continuous' || !container || !column || pageSizes.length === 0) return;
+    const viewTop = (container.getBoundingClientRect().top - column.getBoundingClientRect().top) / scale;
+    const viewBottom = viewTop + container.clientHeight / scale;
+    const first = findPageAt(viewTop);
+    const last = findPageAt(viewBottom);
+    setVisiblePages(prev => {
+      const next = { first: Math.max(0, first - OVERSCAN_PAGES), last: Math.min(pageSizes.length - 1, last + OVERSCAN_PAGES) };
+      return prev.first === next.first && prev.last === next.last ? prev : next;
+    });
+
+    if (scrollTargetRef.current !== null) {
+      scrollTargetRef.current = null;
+      return;
+    }
+    let mostVisible = first;
+    let mostVisibleHeight = 0;
+    for (let index = first; index <= last; index++) {
+      const top = layout.tops[index];
+      const height = Math.min(viewBottom, top + pageSizes[index].height) - Math.max(viewTop, top);
+      if (height > mostVisibleHeight) {
+        mostVisible = index;
+        mostVisibleHeight = height;
+      }
     }
-  }, [pdfDoc, currentPage, renderPage]);
+    setCurrentPage(mostVisible + 1);
+  }, [viewMode, scale, pageSizes, layout, findPageAt]);
+
+  useLayoutEffect(() => {
+    updateVisiblePages();
+  }, [updateVisiblePages, containerSize]);
+
+  /** Shows a page, scrolling to its top in the continuous view. */
+  const goToPage = useCallback((pageNumber: number) => {
+    const target = clamp(pageNumber, 1, totalPages);
+    setCurrentPage(target);
+    const container = containerRef.current;
+    const column = pageRef.current;
+    if (viewMode !== 'continuous' || !container || !column) return;
+    const columnTop = column.getBoundingClientRect().top - container.getBoundingClientRect().top + container.scrollTop;
+    const scrollTop = clamp(columnTop + layout.tops[target - 1] * scale - PAGE_MARGIN, 0, container.scrollHeight - container.clientHeight);
+    // Only a scroll that actually happens fires the event that clears the target
+    if (Math.round(scrollTop) === Math.round(container.scrollTop)) return;
+    scrollTargetRef.current = target;
+    container.scrollTop = scrollTop;
+  }, [viewMode, totalPages, layout, scale]);
+
+  // Switching to the continuous view scrolls to the page that was shown, once the pages
+  // are laid out at the zoom level that fits them
+  useLayoutEffect(() => {
+    const target = pendingJumpRef.current;
+    if (target === null || scaleRef.current !== scale) return;
+    pendingJumpRef.current = null;
+    goToPage(target);
+  });
+
+  const toggleViewMode = () => {
+    if (viewMode === 'single') pendingJumpRef.current = currentPage;
+    setViewMode(viewMode === 'single' ? 'continuous' : 'single');
+  };
+
+  /**
+   * Changes the zoom level, keeping the point under `client` in place.
+   * @param client A point on screen, in client coordinates. Defaults to the center of the view.
+   */
+  const zoomTo = useCallback((nextScale: number, client?: Point) => {
+    const container = containerRef.current;
+    const pageElement = pageRef.current;
+    const clamped = clamp(nextScale, MIN_ZOOM, MAX_ZOOM);
+    setZoomMode('custom');
+    if (!container || !pageElement || clamped === scaleRef.current) return;
+
+    const containerRect = container.getBoundingClientRect();
+    const point = client ?? { x: containerRect.left + containerRect.width / 2, y: containerRect.top + containerRect.height / 2 };
+    if (zoomAnchorRef.current) {
+      // The page hasn't been laid out at the previous zoom level yet, so keep the same point of the page
+      zoomAnchorRef.current.client = point;
+    } else {
+      const rect = pageElement.getBoundingClientRect();
+      zoomAnchorRef.current = {
+        pagePoint: { x: (point.x - rect.left) / scaleRef.current, y: (point.y - rect.top) / scaleRef.current },
+        client: point,
+      };
+    }
+    scaleRef.current = clamped;
+    setScale(clamped);
+  }, []);
+
+  // Ctrl+wheel and trackpad pinches, which arrive as wheel events with Ctrl held, zoom around the pointer;
+  // so do two-finger pinches on touch screens. The listeners are not passive so the browser doesn't zoom the whole app
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey && !e.metaKey) return;
+      e.preventDefault();
+      const delta = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? e.deltaY * 16 : e.deltaY;
+      zoomTo(scaleRef.current * Math.exp(-delta * WHEEL_ZOOM_SPEED), { x: e.clientX, y: e.clientY });
+    };
+
+    let pinch: { distance: number; scale: number } | null = null;
+    const measurePinch = (e: TouchEvent) => {
+      const [a, b] = [e.touches[0], e.touches[1]];
+      return {
+        distance: Math.hypot(a.clientX - b.clientX, a.clientY - b.clientY),
+        center: { x: (a.clientX + b.clientX) / 2, y: (a.clientY + b.clientY) / 2 },
+      };
+    };
+    const handleTouchStart = (e: TouchEvent) => {
+      // Two fingers on a layer resize and turn that layer instead
+      const isOnLayer = Array.from(e.touches).some(touch => (touch.target as Element).closest?.('[data-layer-box]'));
+      if (e.touches.length === 2 && !isOnLayer) pinch = { distance: measurePinch(e).distance, scale: scaleRef.current };
+    };
+    const handleTouchMove = (e: TouchEvent) => {
+      if (!pinch || e.touches.length !== 2) return;
+      e.preventDefault();
+      const { distance, center } = measurePinch(e);
+      if (pinch.distance > 0) zoomTo(pinch.scale * distance / pinch.distance, center);
+    };
+    const handleTouchEnd = (e: TouchEvent) => {
+      if (e.touches.length < 2) pinch = null;
+    };
+
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    container.addEventListener('touchstart', handleTouchStart, { passive: true });
+    container.addEventListener('touchmove', handleTouchMove, { passive: false });
+    container.addEventListener('touchend', handleTouchEnd);
+    container.addEventListener('touchcancel', handleTouchEnd);
+    return () => {
+      container.removeEventListener('wheel', handleWheel);
+      container.removeEventListener('touchstart', handleTouchStart);
+      container.removeEventListener('touchmove', handleTouchMove);
+      container.removeEventListener('touchend', handleTouchEnd);
+      container.removeEventListener('touchcancel', handleTouchEnd);
+    };
+  }, [zoomTo]);
 
+  // Holding Space over the page turns dragging into panning, except while typing
   useEffect(() => {
-    const handleResize = () => {
-        if(pdfDoc) renderPage(currentPage);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space') return;
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      if (!containerRef.current?.matches(':hover')) return;
+      // Keeps the browser from scrolling the app or pressing a focused button
+      e.preventDefault();
+      setIsSpaceHeld(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') setIsSpaceHeld(false);
+    };
+    const handleBlur = () => setIsSpaceHeld(false);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+      stopPanRef.current?.();
+    };
+  }, []);
+
+  const handlePanStart = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!isSpaceHeld) return;
+    // Captured before the layers see the event, so Space+drag never moves a layer
+    e.preventDefault();
+    e.stopPropagation();
+    const container = e.currentTarget;
+    const start = { x: e.clientX, y: e.clientY, scrollLeft: container.scrollLeft, scrollTop: container.scrollTop };
+    const handlePointerMove = (moveEvent: PointerEvent) => {
+      if (moveEvent.pointerId !== e.pointerId) return;
+      container.scrollLeft = start.scrollLeft - (moveEvent.clientX - start.x);
+      container.scrollTop = start.scrollTop - (moveEvent.clientY - start.y);
+    };
+    const stopPan = () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', stopPan);
+      window.removeEventListener('pointercancel', stopPan);
+      setIsPanning(false);
+      stopPanRef.current = null;
     };
-    window.addEventListener('resize', handleResize);
-    return () => window.removeEventListener('resize', handleResize);
-  }, [pdfDoc, currentPage, renderPage]);
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', stopPan);
+    window.addEventListener('pointercancel', stopPan);
+    setIsPanning(true);
+    stopPanRef.current = stopPan;
+  };
 
 
-  const goToPrevPage = () => setCurrentPage(p => Math.max(1, p - 1));
-  const goToNextPage = () => setCurrentPage(p => Math.min(totalPages, p + 1));
+  useEffect(() => {
+    onPageChange(currentPage - 1);
+    setPageInput(String(currentPage));
+  }, [currentPage, onPageChange]);
 
-  const handleMergeClick = () => {
-    onMerge(currentPage - 1, scale);
-  }
+  // Removing pages in the organizer can leave the current page past the end
+  useEffect(() => {
+    if (totalPages > 0 && currentPage > totalPages) setCurrentPage(totalPages);
+  }, [currentPage, totalPages]);
 
-  return (
-    <div className="w-full h-full flex flex-col relative bg-overlay-bg/5">
-      <div ref={containerRef} className="flex-grow flex items-center justify-center p-4 overflow-auto relative">
-        {isLoading && <div className="absolute inset-0 bg-brand-surface/80 flex items-center justify-center z-20"><div className="loader"></div><style>{`.loader { border: 4px solid #f3f3f340; border-top: 4px solid #6a45ff; border-radius: 50%; width: 40px; height: 40px; animation: spin 1s linear infinite; } @keyframes spin { 0% { transform: rotate(0deg); } 100% { transform: rotate(360deg); } }`}</style></div>}
-        <div style={{ position: 'relative', lineHeight: 0 }}>
-            <canvas ref={canvasRef} className="rounded-md shadow-lg" />
-            {image && canvasRef.current && (
-                <DraggableResizableImage 
-                    src={image.url} 
-                    initialPosition={image.position} 
-                    initialSize={image.size}
-                    onUpdate={onImageUpdate}
-                    bounds={{
-                        top: 0,
-                        left: 0,
-                        right: canvasRef.current.width,
-                        bottom: canvasRef.current.height
+  // Layers are stored in PDF points; convert them to screen pixels at the current zoom.
+  // The entries only change with the layers, so boxes being dragged aren't reset by other renders
+  const layerViews = useMemo(() => layers.map(layer => ({
+    layer,
+    position: { x: layer.position.x * scale, y: layer.position.y * scale },
+    size: { width: layer.size.width * scale, height: layer.size.height * scale },
+  })), [layers, scale]);
+
+  // Layers placed on another page that are also stamped on a page, shown there as a read-only preview
+  const stampPreviews = useMemo(() => {
+    const previews = new Map<number, { layer: Layer; position: Point; size: Size }[]>();
+    layers.forEach(layer => {
+      const sourceSize = pageSizes[layer.pageIndex];
+      if (!sourceSize) return;
+      resolvePageSelection(layer.pageSelection, layer.pageIndex, pageSizes.length)?.forEach(pageIndex => {
+        if (pageIndex === layer.pageIndex) return;
+        const { position, size } = mapPlacementToPage(layer.position, layer.size, sourceSize, pageSizes[pageIndex], layer.anchor);
+        previews.set(pageIndex, [...(previews.get(pageIndex) ?? []), { layer, position, size }]);
+      });
+    });
+    return previews;
+  }, [layers, pageSizes]);
+
+  // The further copies of tiled layers on each page; the box itself is shown as the layer or its preview
+  const tileCopies = useMemo(() => {
+    const copies = new Map<number, { layer: Layer; positions: Point[]; size: Size }[]>();
+    layers.forEach(layer => {
+      const { tiling } = layer;
+      const sourceSize = pageSizes[layer.pageIndex];
+      if (!tiling || !sourceSize) return;
+      const pageIndices = resolvePageSelection(layer.pageSelection, layer.pageIndex, pageSizes.length) ?? [layer.pageIndex];
+      pageIndices.forEach(pageIndex => {
+        const { position, size } = mapPlacementToPage(layer.position, layer.size, sourceSize, pageSizes[pageIndex], layer.anchor);
+        const positions = getTilePositions(position, size, layer.rotation, pageSizes[pageIndex], tiling)
+          .filter(tile => Math.abs(tile.x - position.x) > 0.01 || Math.abs(tile.y - position.y) > 0.01);
+        copies.set(pageIndex, [...(copies.get(pageIndex) ?? []), { layer, positions, size }]);
+      });
+    });
+    return copies;
+  }, [layers, pageSizes]);
+
+  const pageNumberLabels = useMemo(
+    () => pageNumbering.enabled ? getPageNumberLabels(pageNumbering, totalPages, firstPageNumber) : [],
+    [pageNumbering, totalPages, firstPageNumber],
+  );
+
+  // How many layers are stamped on each page, shown as a badge on its thumbnail
+  const stampCounts = useMemo(() => {
+    const counts = pageSizes.map(() => 0);
+    layers.forEach(layer => {
+      // A range that doesn't parse still leaves the layer on the page it was placed on
+      const pageIndices = resolvePageSelection(layer.pageSelection, layer.pageIndex, pageSizes.length) ?? [layer.pageIndex];
+      pageIndices.forEach(index => {
+        if (index < counts.length) counts[index]++;
+      });
+    });
+    return counts;
+  }, [layers, pageSizes]);
+
+  const selectedLayer = layers.find(layer => layer.id === selectedLayerId);
+  // The layer options apply to a layer that is in view: on the current page, or on any page of the continuous view
+  const hasSelection = !!selectedLayer && (viewMode === 'continuous' || selectedLayer.pageIndex === currentPage - 1);
+  const selectedPageLayers = layers.filter(layer => layer.pageIndex === selectedLayer?.pageIndex);
+  const selectedIndex = selectedPageLayers.findIndex(layer => layer.id === selectedLayerId);
+
+  const goToPrevPage = () => goToPage(currentPage - 1);
+  const goToNextPage = () => goToPage(currentPage + 1);
+
+  const commitPageInput = () => {
+    const pageNumber = parseInt(pageInput, 10);
+    if (Number.isFinite(pageNumber)) goToPage(pageNumber);
+    // Shows the current page again if the input was empty, invalid or out of range
+    setPageInput(String(currentPage));
+  };
+
+  /**
+   * Stores where a layer was dragged to. In the continuous view a layer can be dragged
+   * past the edge of its page; it then moves to the page its center was dropped on.
+   * @param position The new top-left corner, in pixels from the page the layer is on.
+   * @param mergeKey Set for arrow-key nudges, which are undone together.
+   */
+  const handleLayerMove = (layer: Layer, position: Point, displaySize: Size, mergeKey?: string) => {
+    const size = { width: displaySize.width / scale, height: displaySize.height / scale };
+    const moved = { x: position.x / scale, y: position.y / scale };
+    if (viewMode === 'continuous') {
+      const center = {
+        x: getPageLeft(layer.pageIndex) + moved.x + size.width / 2,
+        y: layout.tops[layer.pageIndex] + moved.y + size.height / 2,
+      };
+      const target = findPageAt(center.y);
+      if (target !== layer.pageIndex) {
+        const targetSize = pageSizes[target];
+        onLayerUpdate(layer.id, {
+          x: clamp(center.x - getPageLeft(target) - size.width / 2, 0, targetSize.width - size.width),
+          y: clamp(center.y - layout.tops[target] - size.height / 2, 0, targetSize.height - size.height),
+        }, size, target);
+        return;
+      }
+    }
+    onLayerUpdate(layer.id, moved, size, undefined, mergeKey);
+  };
+
+  /** Applies a change from the page organizer. Layers follow their pages, and leave with the pages that are removed. */
+  const changePages = (next: OrganizedPage[], updateLayers?: (layers: Layer[]) => Layer[]) => {
+    const before = pageList;
+    onPagesChange(next, current => remapLayers(updateLayers ? updateLayers(current) : current, before, next));
+  };
+
+  const handlePageRotate = (index: number, direction: 1 | -1) => {
+    changePages(rotatePage(pageList, index, direction), layers => rotateLayers(layers, index, pageSizes[index], direction));
+  };
+
+  // A blank page takes the size of the page before it, as it appears
+  const handleBlankPageInsert = (index: number) => {
+    changePages(insertBlankPage(pageList, index, pageSizes[Math.max(0, index - 1)]));
+  };
+
+  const toggleOrganizing = () => {
+    // The continuous view was hidden, so it scrolls back to the current page
+    if (isOrganizing) pendingJumpRef.current = currentPage;
+    setIsOrganizing(!isOrganizing);
+  };
+
+  /** Renders a page with its layers, or an empty sheet of the same size if it is out of view. */
+  const renderPageView = (pageIndex: number, isMounted: boolean, style: React.CSSProperties, ref?: React.Ref<HTMLDivElement>) => {
+    const page = pageList[pageIndex];
+    const size = pageSizes[pageIndex];
+    const left = viewMode === 'continuous' ? getPageLeft(pageIndex) * scale : 0;
+    const top = viewMode === 'continuous' ? layout.tops[pageIndex] * scale : 0;
+    const hasSelectedLayer = selectedLayer?.pageIndex === pageIndex;
+    return (
+      <div
+        key={pageIndex}
+        ref={ref}
+        style={{
+          position: 'relative',
+          lineHeight: 0,
+          flexShrink: 0,
+          width: `${size.width * scale}px`,
+          height: `${size.height * scale}px`,
+          // Keeps a layer dragged onto a later page above that page
+          zIndex: hasSelectedLayer ? 1 : undefined,
+          ...style,
+        }}
+        onDragOver={(e) => {
+          if (!e.dataTransfer.types.includes(STAMP_DRAG_TYPE)) return;
+          e.preventDefault();
+          e.dataTransfer.dropEffect = 'copy';
+        }}
+        onDrop={(e) => {
+          const stampId = e.dataTransfer.getData(STAMP_DRAG_TYPE);
+          if (!stampId) return;
+          e.preventDefault();
+          const rect = e.currentTarget.getBoundingClientRect();
+          onStampDrop(stampId, pageIndex, { x: (e.clientX - rect.left) / scale, y: (e.clientY - rect.top) / scale });
+        }}
+      >
+        {!isMounted || !pdfDoc ? (
+          <div className="w-full h-full rounded-md shadow-lg bg-white" />
+        ) : (
+          <>
+            {page.kind === 'blank' ? (
+              <div className="w-full h-full rounded-md shadow-lg bg-white" onPointerDown={() => onSelectLayer(null)} />
+            ) : (
+              <PageCanvas pdfDoc={pdfDoc} pageNumber={page.sourceIndex + 1} rotation={page.rotation} scale={scale} pixelRatio={pixelRatio} onPointerDown={() => onSelectLayer(null)} />
+            )}
+            {tileCopies.get(pageIndex)?.map(({ layer, positions, size }) => (
+              <div key={`tiles-${layer.id}`} aria-hidden="true" className="absolute inset-0 overflow-hidden pointer-events-none">
+                {positions.map((tile, index) => (
+                  <div
+                    key={index}
+                    style={{
+                      position: 'absolute',
+                      left: `${tile.x * scale}px`,
+                      top: `${tile.y * scale}px`,
+                      width: `${size.width * scale}px`,
+                      height: `${size.height * scale}px`,
+                      transform: `rotate(${layer.rotation}deg)`,
+                      mixBlendMode: layer.blendMode,
                     }}
+                  >
+                    <LayerContent layer={layer} displayHeight={size.height * scale} />
+                  </div>
+                ))}
+              </div>
+            ))}
+            {stampPreviews.get(pageIndex)?.map(({ layer, position, size }) => (
+              <div
+                key={layer.id}
+                aria-hidden="true"
+                onPointerDown={() => onSelectLayer(null)}
+                style={{
+                  position: 'absolute',
+                  left: `${position.x * scale}px`,
+                  top: `${position.y * scale}px`,
+                  width: `${size.width * scale}px`,
+                  height: `${size.height * scale}px`,
+                  transform: `rotate(${layer.rotation}deg)`,
+                  opacity: 0.6,
+                  mixBlendMode: layer.blendMode,
+                  outline: '1px dashed rgba(106, 69, 255, 0.5)',
+                }}
+              >
+                <LayerContent layer={layer} displayHeight={size.height * scale} />
+              </div>
+            ))}
+            {layerViews.filter(({ layer }) => layer.pageIndex === pageIndex).map(({ layer, position, size }) => (
+              <DraggableResizableImage
+                key={layer.id}
+                initialPosition={position}
+                initialSize={size}
+                rotation={layer.rotation}
+                blendMode={layer.blendMode}
+                isSelected={layer.id === selectedLayerId}
+                onSelect={() => onSelectLayer(layer.id)}
+                onDoubleClick={layer.kind === 'text' ? () => setEditingLayerId(layer.id) : undefined}
+                onUpdate={(pos, newSize, mergeKey) => handleLayerMove(layer, pos, newSize, mergeKey)}
+                onRotate={(rotation) => onLayerChange(layer.id, { rotation })}
+                bounds={{
+                  top: 0,
+                  left: 0,
+                  right: pageSizes[pageIndex].width * scale,
+                  bottom: pageSizes[pageIndex].height * scale,
+                }}
+                moveBounds={viewMode === 'continuous' ? {
+                  top: -top,
+                  left: -left,
+                  right: layout.width * scale - left,
+                  bottom: layout.height * scale - top,
+                } : undefined}
+              >
+                <LayerContent
+                  layer={layer}
+                  displayHeight={size.height}
+                  isEditing={layer.id === editingLayerId}
+                  onTextChange={(text) => onLayerChange(layer.id, { text })}
+                  onEditEnd={() => setEditingLayerId(null)}
                 />
+              </DraggableResizableImage>
+            ))}
+            {pageNumberLabels[pageIndex] && (
+              <div aria-hidden="true" className="pointer-events-none" style={getNumberLabelStyle(pageNumbering, scale)}>
+                {pageNumberLabels[pageIndex]}
+              </div>
             )}
+          </>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="w-full h-full flex flex-col relative bg-overlay-bg/5">
+      <div className="flex-grow min-h-0 flex">
+        {pdfDoc && !isOrganizing && (
+          <div className="hidden md:block h-full">
+            <PageThumbnails
+              pdfDoc={pdfDoc}
+              pages={pageList}
+              pageSizes={pageSizes}
+              currentPage={currentPage}
+              onSelectPage={goToPage}
+              stampCounts={stampCounts}
+            />
+          </div>
+        )}
+        {pdfDoc && isOrganizing && (
+          <PageOrganizer
+            pdfDoc={pdfDoc}
+            pages={pageList}
+            pageSizes={pageSizes}
+            stampCounts={stampCounts}
+            onOpenPage={(pageNumber) => {
+              pendingJumpRef.current = pageNumber;
+              setIsOrganizing(false);
+            }}
+            onMove={(from, to) => changePages(movePage(pageList, from, to))}
+            onRotate={handlePageRotate}
+            onDelete={(index) => changePages(pageList.filter((_, i) => i !== index))}
+            onInsertBlank={handleBlankPageInsert}
+            disabled={isProcessing}
+          />
+        )}
+        {/* Kept mounted while organizing pages, so it keeps its size and scroll listeners */}
+        <div
+          ref={containerRef}
+          className={`flex-grow min-w-0 flex p-4 overflow-auto relative ${isOrganizing ? 'hidden' : ''}`}
+          // A stable gutter keeps fitting to the width from toggling the scrollbar on and off
+          style={{ scrollbarGutter: 'stable', touchAction: 'pan-x pan-y', cursor: isPanning ? 'grabbing' : isSpaceHeld ? 'grab' : undefined }}
+          onPointerDownCapture={handlePanStart}
+          onScroll={updateVisiblePages}
+        >
+          {isLoading && <div className="absolute inset-0 bg-brand-surface/80 flex items-center justify-center z-20"><div className="loader"></div><style>{`.loader { border: 4px solid #f3f3f340; border-top: 4px solid #6a45ff; border-radius: 50%; width: 40px; height: 40px; animation: spin 1s linear infinite; } @keyframes spin { 0% { transform: rotate(0deg); } 100% { transform: rotate(360deg); } }`}</style></div>}
+          {/* Auto margins center the pages without cutting off their top and left when they overflow */}
+          {viewMode === 'single' && pageSize && renderPageView(currentPage - 1, true, { margin: 'auto' }, pageRef)}
+          {viewMode === 'continuous' && pageSizes.length > 0 && (
+            <div
+              ref={pageRef}
+              style={{ position: 'relative', flexShrink: 0, margin: 'auto', width: `${layout.width * scale}px`, height: `${layout.height * scale}px` }}
+            >
+              {pageSizes.map((_, pageIndex) => renderPageView(
+                pageIndex,
+                // The page of the selected layer stays mounted, so a drag isn't cut off by scrolling
+                (pageIndex >= visiblePages.first && pageIndex <= visiblePages.last) || selectedLayer?.pageIndex === pageIndex,
+                { position: 'absolute', left: `${getPageLeft(pageIndex) * scale}px`, top: `${layout.tops[pageIndex] * scale}px` },
+              ))}
+            </div>
+          )}
         </div>
       </div>
-      <div className="flex-shrink-0 bg-brand-surface/70 backdrop-blur-sm p-3 flex justify-between items-center border-t border-border-color">
-        <div className="flex items-center gap-3">
+      {hasSelection && selectedLayer && !isOrganizing && (
+        <LayerOptionsBar
+          layer={selectedLayer}
+          pageCount={totalPages}
+          pageSize={pageSizes[selectedLayer.pageIndex]}
+          onChange={(changes) => onLayerChange(selectedLayer.id, changes)}
+          onEditBackground={onImageBackgroundEdit}
+          disabled={isProcessing}
+        />
+      )}
+      {/* On narrow screens the groups wrap onto separate rows, and labels give way to their icons */}
+      <div className="flex-shrink-0 bg-brand-surface/70 backdrop-blur-sm p-2 sm:p-3 flex flex-wrap gap-2 justify-between items-center border-t border-border-color">
+        <div className="flex flex-wrap items-center gap-1 sm:gap-3">
           <button onClick={goToPrevPage} disabled={currentPage <= 1} className="p-2 rounded-md hover:bg-brand-primary/20 disabled:opacity-50 disabled:cursor-not-allowed transition-colors">
             <ArrowLeftIcon className="w-5 h-5" />
           </button>
-          <span className="text-sm font-medium">{t('page')} {currentPage} {t('of')} {totalPages}</span>
+          <label className="text-sm font-medium flex items-center gap-1.5">
+            <span className="hidden sm:inline">{t('page')}</span>
+            <input
+              type="number"
+              inputMode="numeric"
+              min={1}
+              max={totalPages}
+              value={pageInput}
+              onChange={(e) => setPageInput(e.target.value)}
+              onBlur={commitPageInput}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitPageInput();
+                if (e.key === 'Escape') setPageInput(String(currentPage));
+              }}
+              aria-label={t('goToPageLabel')}
+              className="w-14 px-2 py-1 text-center bg-brand-surface border border-border-color rounded-md focus:outline-none focus:ring-brand-primary focus:border-brand-primary"
+            />
+            <span>{t('of')} {totalPages}</span>
+          </label>
           <button onClick={goToNextPage} disabled={currentPage >= totalPages} className="p-2 rounded-md hover:bg-brand-primary/20 disabled:opacity-50 disabled:cursor-not-allowed transition-colors">
             <ArrowRightIcon className="w-5 h-5" />
           </button>
+          <div className="hidden sm:block w-px h-6 bg-border-color mx-1"></div>
+          <button onClick={() => zoomTo(scale / ZOOM_STEP)} disabled={scale <= MIN_ZOOM} className="p-2 rounded-md hover:bg-brand-primary/20 disabled:opacity-50 transition-colors" title={t('zoomOutTooltip')}>
+            <ZoomOutIcon className="w-5 h-5" />
+          </button>
+          <span className="text-sm font-medium w-12 text-center tabular-nums" aria-label={t('zoomLevelLabel')}>{Math.round(scale * 100)}%</span>
+          <button onClick={() => zoomTo(scale * ZOOM_STEP)} disabled={scale >= MAX_ZOOM} className="p-2 rounded-md hover:bg-brand-primary/20 disabled:opacity-50 transition-colors" title={t('zoomInTooltip')}>
+            <ZoomInIcon className="w-5 h-5" />
+          </button>
+          <button onClick={() => setZoomMode('fit-width')} aria-pressed={zoomMode === 'fit-width'} className={`p-2 rounded-md hover:bg-brand-primary/20 transition-colors ${zoomMode === 'fit-width' ? 'text-brand-primary' : ''}`} title={t('fitWidthTooltip')}>
+            <FitWidthIcon className="w-5 h-5" />
+          </button>
+          <button onClick={() => setZoomMode('fit-page')} aria-pressed={zoomMode === 'fit-page'} className={`p-2 rounded-md hover:bg-brand-primary/20 transition-colors ${zoomMode === 'fit-page' ? 'text-brand-primary' : ''}`} title={t('fitPageTooltip')}>
+            <FitPageIcon className="w-5 h-5" />
+          </button>
+          <button onClick={toggleViewMode} aria-pressed={viewMode === 'continuous'} className={`p-2 rounded-md hover:bg-brand-primary/20 transition-colors ${viewMode === 'continuous' ? 'text-brand-primary' : ''}`} title={t('continuousScrollTooltip')}>
+            <ContinuousScrollIcon className="w-5 h-5" />
+          </button>
+          <button onClick={toggleOrganizing} disabled={!pdfDoc} aria-pressed={isOrganizing} className={`p-2 rounded-md hover:bg-brand-primary/20 disabled:opacity-50 transition-colors ${isOrganizing ? 'text-brand-primary' : ''}`} title={t('organizePagesTooltip')}>
+            <OrganizePagesIcon className="w-5 h-5" />
+          </button>
         </div>
-        <div className="flex items-center gap-2">
-            {image && (
+        <div className="flex flex-wrap items-center gap-1 sm:gap-2">
+            <button onClick={onUndo} disabled={isProcessing || !canUndo} className="p-2 rounded-md hover:bg-brand-primary/20 disabled:opacity-50 transition-colors" title={t('undoTooltip')}>
+                <UndoIcon className="w-5 h-5" />
+            </button>
+            <button onClick={onRedo} disabled={isProcessing || !canRedo} className="p-2 rounded-md hover:bg-brand-primary/20 disabled:opacity-50 transition-colors" title={t('redoTooltip')}>
+                <RedoIcon className="w-5 h-5" />
+            </button>
+            <div className="hidden sm:block w-px h-6 bg-border-color mx-1"></div>
+            {hasSelection && (
                 <>
+                    <button onClick={() => onLayerReorder(-1)} disabled={isProcessing || selectedIndex === 0} className="p-2 rounded-md hover:bg-brand-primary/20 disabled:opacity-50 transition-colors" title={t('sendBackwardTooltip')}>
+                        <SendBackwardIcon className="w-5 h-5" />
+                    </button>
+                    <button onClick={() => onLayerReorder(1)} disabled={isProcessing || selectedIndex === selectedPageLayers.length - 1} className="p-2 rounded-md hover:bg-brand-primary/20 disabled:opacity-50 transition-colors" title={t('bringForwardTooltip')}>
+                        <BringForwardIcon className="w-5 h-5" />
+                    </button>
+                    <button onClick={onLayerDuplicate} disabled={isProcessing} className="p-2 rounded-md hover:bg-brand-primary/20 disabled:opacity-50 transition-colors" title={t('duplicateTooltip')}>
+                        <DuplicateIcon className="w-5 h-5" />
+                    </button>
                     <button onClick={onImageReset} disabled={isProcessing} className="p-2 rounded-md hover:bg-brand-primary/20 disabled:opacity-50 transition-colors" title={t('resetTooltip')}>
                         <ResetIcon className="w-5 h-5" />
                     </button>
                     <button onClick={onImageClear} disabled={isProcessing} className="p-2 rounded-md hover:bg-brand-secondary/20 disabled:opacity-50 transition-colors" title={t('removeTooltip')}>
                         <ClearIcon className="w-5 h-5 text-brand-secondary" />
                     </button>
-                    <div className="w-px h-6 bg-border-color mx-1"></div>
+                    <div className="hidden sm:block w-px h-6 bg-border-color mx-1"></div>
                 </>
             )}
             <button
-              onClick={handleMergeClick}
-              disabled={!image || isProcessing}
-              className="bg-brand-primary hover:bg-brand-primary/80 disabled:bg-gray-500 disabled:cursor-wait text-white font-bold py-2 px-4 rounded-md flex items-center gap-2 transition-colors"
+              onClick={onMerge}
+              disabled={!canMerge || isProcessing}
+              title={isProcessing ? t('processingButton') : t('mergeButton')}
+              className="bg-brand-primary hover:bg-brand-primary/80 disabled:bg-gray-500 disabled:cursor-wait text-white font-bold py-2 px-3 sm:px-4 rounded-md flex items-center gap-2 transition-colors"
             >
               {isProcessing ? (
                 <>
                   <div className="w-4 h-4 border-2 border-white/50 border-t-white rounded-full animate-spin"></div>
-                  <span>{t('processingButton')}</span>
+                  <span className="hidden sm:inline">{t('processingButton')}</span>
                 </>
               ) : (
                 <>
                   <DownloadIcon className="w-5 h-5" />
-                  <span>{t('mergeButton')}</span>
+                  <span className="hidden sm:inline">{t('mergeButton')}</span>
                 </>
               )}
             </button>
         </div>
       </div>
+      {passwordPrompt && (
+        <PasswordDialog
+          key={passwordPrompt.attempt}
+          fileName={pdfFile.name}
+          reason={passwordPrompt.reason}
+          onSubmit={(password) => {
+            setPasswordPrompt(null);
+            passwordPrompt.resolve(password);
+          }}
+          onCancel={() => {
+            setPasswordPrompt(null);
+            passwordPrompt.resolve(null);
+          }}
+        />
+      )}
     </div>
   );
 };
 
+/** Places a page number where the merge writes it, in the same font and size. */
+const getNumberLabelStyle = (numbering: PageNumbering, scale: number): React.CSSProperties => {
+  const [vertical, horizontal] = numbering.position.split('-');
+  const margin = `${NUMBERING_MARGIN * scale}px`;
+  return {
+    position: 'absolute',
+    ...(vertical === 'top' ? { top: margin } : { bottom: margin }),
+    ...(horizontal === 'left' && { left: margin }),
+    ...(horizontal === 'right' && { right: margin }),
+    ...(horizontal === 'center' && { left: '50%', transform: 'translateX(-50%)' }),
+    fontFamily: `"${TEXT_FONTS[NUMBERING_FONT].cssFamily}"`,
+    fontSize: `${numbering.fontSize * scale}px`,
+    lineHeight: LINE_HEIGHT,
+    color: '#000000',
+    whiteSpace: 'pre',
+    unicodeBidi: 'plaintext',
+  };
+};
+
 export default PdfEditor;
\ No newline at end of file
@@ -0,0 +1,228 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useSettings } from '../contexts/SettingsContext';
+import { SignatureStroke, Size, StrokePoint } from '../types';
+import { normalizeStrokes, strokeToOutlinePath } from '../utils/signature';
+import { CloseIcon, UndoIcon } from './Icons';
+
+const PAD_SIZE: Size = { width: 600, height: 220 };
+const PEN_COLORS = ['#1c1c1e', '#1a3fa8', '#b3261e'];
+const DEFAULT_PEN_WIDTH = 3;
+// How much of each new width sample is taken over, so the line doesn't jitter
+const WIDTH_SMOOTHING = 0.3;
+// How much of each new position is taken over, which evens out shaky input
+const POSITION_SMOOTHING = 0.6;
+
+interface SignaturePadModalProps {
+  /** Called with the strokes cropped to their bounds, in pad pixels. */
+  onSave: (strokes: SignatureStroke[], contentSize: Size) => void;
+  onClose: () => void;
+}
+
+/**
+ * Returns the pen width for a new point. Pens report real pressure; for mice and
+ * fingers the speed stands in for it, so fast strokes come out thinner.
+ */
+const getTargetWidth = (e: Pick<PointerEvent, 'pointerType' | 'pressure'>, penWidth: number, speed: number) => {
+  if (e.pointerType === 'pen' && e.pressure > 0) {
+    return penWidth * (0.4 + e.pressure * 1.2);
+  }
+  return penWidth * Math.min(1.4, Math.max(0.5, 1.4 - speed * 0.4));
+};
+
+/**
+ * A modal to draw a signature with a mouse, finger or pen. Strokes are kept as
+ * points so the signature can be placed as vector paths instead of an image.
+ */
+const SignaturePadModal: React.FC<SignaturePadModalProps> = ({ onSave, onClose }) => {
+  const { t } = useSettings();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [strokes, setStrokes] = useState<SignatureStroke[]>([]);
+  const [penColor, setPenColor] = useState(PEN_COLORS[0]);
+  const [penWidth, setPenWidth] = useState(DEFAULT_PEN_WIDTH);
+  // The stroke being drawn is kept in a ref, so pointer moves don't re-render the modal
+  const activeStrokeRef = useRef<SignatureStroke | null>(null);
+  const lastSampleRef = useRef<{ time: number; x: number; y: number } | null>(null);
+
+  const redraw = useCallback(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    ctx.setTransform(canvas.width / PAD_SIZE.width, 0, 0, canvas.height / PAD_SIZE.height, 0, 0);
+    ctx.clearRect(0, 0, PAD_SIZE.width, PAD_SIZE.height);
+    const activeStroke = activeStrokeRef.current;
+    for (const stroke of activeStroke ? [...strokes, activeStroke] : strokes) {
+      ctx.fillStyle = stroke.color;
+      ctx.fill(new Path2D(strokeToOutlinePath(stroke.points)));
+    }
+  }, [strokes]);
+
+  // Size the canvas backing store for the screen, so lines stay crisp on high-DPI displays
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = PAD_SIZE.width * ratio;
+    canvas.height = PAD_SIZE.height * ratio;
+    redraw();
+  }, [redraw]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const toPadPoint = (e: Pick<PointerEvent, 'clientX' | 'clientY'>) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * PAD_SIZE.width / rect.width,
+      y: (e.clientY - rect.top) * PAD_SIZE.height / rect.height,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { x, y } = toPadPoint(e);
+    const width = getTargetWidth(e, penWidth, 0);
+    activeStrokeRef.current = { color: penColor, points: [{ x, y, width }] };
+    lastSampleRef.current = { time: e.timeStamp, x, y };
+    redraw();
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const stroke = activeStrokeRef.current;
+    const lastSample = lastSampleRef.current;
+    if (!stroke || !lastSample) return;
+    // Coalesced events carry the samples the browser merged since the last frame
+    const events = e.nativeEvent.getCoalescedEvents?.() ?? [];
+    for (const sample of events.length > 0 ? events : [e.nativeEvent]) {
+      const raw = toPadPoint(sample);
+      const previous = stroke.points[stroke.points.length - 1];
+      const point: StrokePoint = {
+        x: previous.x + (raw.x - previous.x) * POSITION_SMOOTHING,
+        y: previous.y + (raw.y - previous.y) * POSITION_SMOOTHING,
+        width: previous.width,
+      };
+      const distance = Math.hypot(point.x - previous.x, point.y - previous.y);
+      if (distance < 0.5) continue;
+      const elapsed = Math.max(1, sample.timeStamp - lastSample.time);
+      const target = getTargetWidth(sample, penWidth, distance / elapsed);
+      point.width = previous.width + (target - previous.width) * WIDTH_SMOOTHING;
+      stroke.points.push(point);
+      lastSampleRef.current = { time: sample.timeStamp, x: point.x, y: point.y };
+    }
+    redraw();
+  };
+
+  const handlePointerUp = () => {
+    const stroke = activeStrokeRef.current;
+    if (!stroke) return;
+    activeStrokeRef.current = null;
+    lastSampleRef.current = null;
+    setStrokes(prev => [...prev, stroke]);
+  };
+
+  const handleSave = () => {
+    if (strokes.length === 0) return;
+    const normalized = normalizeStrokes(strokes);
+    onSave(normalized.strokes, normalized.contentSize);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" role="dialog" aria-modal="true" aria-labelledby="signature-pad-title">
+      <div className="w-full max-w-2xl bg-brand-surface text-brand-text rounded-lg shadow-2xl border border-border-color">
+        <div className="p-4 border-b border-border-color flex items-center justify-between">
+          <h3 id="signature-pad-title" className="font-semibold">{t('signaturePadTitle')}</h3>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-overlay-bg/10 transition-colors" aria-label={t('signatureCancelButton')}>
+            <CloseIcon className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="p-4 flex flex-col gap-3">
+          <p className="text-sm text-brand-text-secondary">{t('signaturePadHint')}</p>
+          <canvas
+            ref={canvasRef}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            aria-label={t('signaturePadLabel')}
+            className="w-full bg-white rounded-md border border-border-color cursor-crosshair"
+            style={{ aspectRatio: `${PAD_SIZE.width} / ${PAD_SIZE.height}`, touchAction: 'none' }}
+          />
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <div className="flex items-center gap-2" role="radiogroup" aria-label={t('signatureColorLabel')}>
+              <span className="text-brand-text-secondary">{t('signatureColorLabel')}</span>
+              {PEN_COLORS.map(color => (
+                <button
+                  key={color}
+                  role="radio"
+                  aria-checked={penColor === color}
+                  aria-label={color}
+                  onClick={() => setPenColor(color)}
+                  className={`w-6 h-6 rounded-full border-2 transition-transform ${penColor === color ? 'border-brand-primary scale-110' : 'border-border-color'}`}
+                  style={{ backgroundColor: color }}
+                />
+              ))}
+              <input
+                type="color"
+                value={penColor}
+                onChange={(e) => setPenColor(e.target.value)}
+                aria-label={t('signatureColorLabel')}
+                className="w-7 h-7 bg-transparent cursor-pointer"
+              />
+            </div>
+            <label className="flex items-center gap-2">
+              <span className="text-brand-text-secondary">{t('signatureWidthLabel')}</span>
+              <input
+                type="range"
+                min={1}
+                max={10}
+                step={0.5}
+                value={penWidth}
+                onChange={(e) => setPenWidth(Number(e.target.value))}
+                className="accent-brand-primary"
+              />
+            </label>
+          </div>
+        </div>
+        <div className="p-4 border-t border-border-color flex flex-wrap items-center justify-between gap-2">
+          <div className="flex gap-2">
+            <button
+              onClick={() => setStrokes(prev => prev.slice(0, -1))}
+              disabled={strokes.length === 0}
+              className="px-3 py-1.5 text-sm rounded-md bg-overlay-bg/10 hover:bg-overlay-bg/20 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1 transition-colors"
+            >
+              <UndoIcon className="w-4 h-4" />
+              <span>{t('signatureUndoButton')}</span>
+            </button>
+            <button
+              onClick={() => setStrokes([])}
+              disabled={strokes.length === 0}
+              className="px-3 py-1.5 text-sm rounded-md bg-overlay-bg/10 hover:bg-overlay-bg/20 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {t('signatureClearButton')}
+            </button>
+          </div>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-3 py-1.5 text-sm rounded-md bg-overlay-bg/10 hover:bg-overlay-bg/20 transition-colors">
+              {t('signatureCancelButton')}
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={strokes.length === 0}
+              className="px-3 py-1.5 text-sm rounded-md bg-brand-primary text-white hover:bg-brand-primary/90 disabled:opacity-50 disabled:cursor-not-allowed font-semibold transition-colors"
+            >
+              {t('signatureAddButton')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SignaturePadModal;
@@ -0,0 +1,195 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { CloseIcon, DownloadIcon, UploadIcon } from './Icons';
+import { useSettings } from '../contexts/SettingsContext';
+import { Layer, LibraryStamp, StampContent } from '../types';
+import { STAMP_DRAG_TYPE, createThumbnail, deleteStamp, exportLibrary, importLibrary, listStamps, saveStamp } from '../utils/stampLibrary';
+import { downloadBlob } from '../utils/download';
+
+interface StampLibraryPanelProps {
+  /** The layer that "Save Selected" adds to the library. Text layers can't be saved. */
+  selectedLayer: Layer | null;
+  onPlace: (stamp: LibraryStamp) => void;
+  onError: (message: string) => void;
+  disabled: boolean;
+}
+
+const getStampContent = (layer: Layer): StampContent | null => {
+  if (layer.kind === 'image') {
+    return { kind: 'image', blob: layer.file, fileName: layer.file.name, imageInfo: layer.imageInfo };
+  }
+  if (layer.kind === 'drawing') {
+    return { kind: 'drawing', strokes: layer.strokes, contentSize: layer.contentSize };
+  }
+  if (layer.kind === 'vector') {
+    return { kind: 'vector', blob: layer.file, fileName: layer.file.name, shapes: layer.shapes, contentSize: layer.contentSize };
+  }
+  return null;
+};
+
+/** Names an image or SVG stamp after its file, and a signature with the given fallback. */
+const getSuggestedName = (layer: Layer | null, fallback: string): string => {
+  if (layer?.kind !== 'image' && layer?.kind !== 'vector') return fallback;
+  const name = layer.file.name;
+  return name.includes('.') ? name.substring(0, name.lastIndexOf('.')) : name;
+};
+
+/**
+ * The "My stamps" library: processed images, SVGs and signatures kept in IndexedDB, so
+ * they can be placed again without uploading and processing them each time.
+ * Nothing in the library leaves the browser except through an explicit export.
+ */
+const StampLibraryPanel: React.FC<StampLibraryPanelProps> = ({ selectedLayer, onPlace, onError, disabled }) => {
+  const { t } = useSettings();
+  const [stamps, setStamps] = useState<LibraryStamp[]>([]);
+  // The name typed for the selected layer; other layers start with a suggested name
+  const [nameDraft, setNameDraft] = useState<{ layerId: string; name: string } | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const selectedContent = selectedLayer ? getStampContent(selectedLayer) : null;
+  const stampName = selectedLayer && nameDraft?.layerId === selectedLayer.id
+    ? nameDraft.name
+    : getSuggestedName(selectedLayer, t('signatureStampName'));
+
+  const refresh = useCallback(async () => {
+    try {
+      setStamps(await listStamps());
+    } catch (err) {
+      console.error("Stamp library failed:", err);
+      onError(t('errorStampLibrary'));
+    }
+  }, [onError, t]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const runTask = async (task: () => Promise<void>, errorKey: 'errorStampLibrary' | 'errorImportLibrary') => {
+    setIsBusy(true);
+    try {
+      await task();
+    } catch (err) {
+      console.error("Stamp library failed:", err);
+      onError(t(errorKey));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSave = () => runTask(async () => {
+    if (!selectedLayer || !selectedContent) return;
+    await saveStamp({
+      id: crypto.randomUUID(),
+      name: stampName.trim() || t('signatureStampName'),
+      createdAt: Date.now(),
+      thumbnail: await createThumbnail(selectedContent),
+      defaultSize: selectedLayer.size,
+      defaultAnchor: selectedLayer.anchor,
+      content: selectedContent,
+    });
+    await refresh();
+  }, 'errorStampLibrary');
+
+  const handleDelete = (id: string) => runTask(async () => {
+    await deleteStamp(id);
+    await refresh();
+  }, 'errorStampLibrary');
+
+  const handleExport = () => runTask(async () => {
+    downloadBlob(await exportLibrary(), 'my-stamps.json');
+  }, 'errorStampLibrary');
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow importing the same file again
+    if (!file) return;
+    runTask(async () => {
+      await importLibrary(file);
+      await refresh();
+    }, 'errorImportLibrary');
+  };
+
+  return (
+    <div className="bg-brand-surface p-4 rounded-lg shadow-lg flex flex-col gap-3 text-sm">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">{t('stampLibraryTitle')}</h3>
+        <div className="flex gap-1">
+          <button
+            onClick={handleExport}
+            disabled={isBusy || stamps.length === 0}
+            className="px-2 py-1 rounded-md hover:bg-brand-primary/20 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1 transition-colors"
+          >
+            <DownloadIcon className="w-4 h-4" />
+            <span>{t('exportLibraryButton')}</span>
+          </button>
+          <button
+            onClick={() => importInputRef.current?.click()}
+            disabled={isBusy}
+            className="px-2 py-1 rounded-md hover:bg-brand-primary/20 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1 transition-colors"
+          >
+            <UploadIcon className="w-4 h-4" />
+            <span>{t('importLibraryButton')}</span>
+          </button>
+          <input ref={importInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+        </div>
+      </div>
+      <p className="text-xs text-brand-text-secondary">{t('stampLibraryHint')}</p>
+
+      {stamps.length > 0 ? (
+        <ul className="grid grid-cols-3 gap-2 max-h-64 overflow-y-auto">
+          {stamps.map(stamp => (
+            <li key={stamp.id} className="relative group">
+              <button
+                onClick={() => onPlace(stamp)}
+                onDragStart={(e) => {
+                  e.dataTransfer.setData(STAMP_DRAG_TYPE, stamp.id);
+                  e.dataTransfer.effectAllowed = 'copy';
+                }}
+                draggable={!disabled}
+                disabled={disabled}
+                title={stamp.name}
+                className="w-full p-2 bg-overlay-bg/10 hover:bg-brand-primary/20 rounded-md flex flex-col items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                <img src={stamp.thumbnail} alt="" className="h-12 w-full object-contain" draggable="false" />
+                <span className="w-full truncate text-xs">{stamp.name}</span>
+              </button>
+              <button
+                onClick={() => handleDelete(stamp.id)}
+                disabled={isBusy}
+                title={t('deleteStampTooltip')}
+                aria-label={t('deleteStampTooltip')}
+                className="absolute top-1 right-1 p-0.5 rounded-full bg-brand-surface opacity-0 group-hover:opacity-100 focus:opacity-100 hover:text-red-400 transition-opacity"
+              >
+                <CloseIcon className="w-3 h-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-brand-text-secondary italic">{t('stampLibraryEmpty')}</p>
+      )}
+
+      {selectedContent && (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={stampName}
+            onChange={(e) => selectedLayer && setNameDraft({ layerId: selectedLayer.id, name: e.target.value })}
+            aria-label={t('stampNameLabel')}
+            placeholder={t('stampNameLabel')}
+            className="flex-1 min-w-0 px-2 py-1 bg-brand-surface border border-border-color rounded-md focus:outline-none focus:ring-brand-primary focus:border-brand-primary"
+          />
+          <button
+            onClick={handleSave}
+            disabled={isBusy || disabled}
+            className="px-3 py-1 rounded-md bg-brand-primary text-white hover:bg-brand-primary/80 disabled:opacity-50 disabled:cursor-not-allowed font-semibold transition-colors"
+          >
+            {t('saveStampButton')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StampLibraryPanel;
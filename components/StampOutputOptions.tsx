@@ -0,0 +1,104 @@
+import React from 'react';
+import { useSettings } from '../contexts/SettingsContext';
+import { StampOutput } from '../types';
+
+interface StampOutputOptionsProps {
+  value: StampOutput;
+  onChange: (value: StampOutput) => void;
+  /** Whether the changes are appended to the original file instead of rewriting it. */
+  appendChanges: boolean;
+  onAppendChangesChange: (appendChanges: boolean) => void;
+  canAppendChanges: boolean;
+  /** The number of signed signature fields in the PDF, which a rewrite would invalidate. */
+  signedFieldCount: number;
+  disabled: boolean;
+}
+
+/**
+ * Lets the user flatten the layers into the pages or add them as Stamp annotations,
+ * with their author and subject, and choose between rewriting the file and
+ * appending the changes to it.
+ */
+const StampOutputOptions: React.FC<StampOutputOptionsProps> = ({
+  value,
+  onChange,
+  appendChanges,
+  onAppendChangesChange,
+  canAppendChanges,
+  signedFieldCount,
+  disabled,
+}) => {
+  const { t } = useSettings();
+  const inputClassName = 'px-2 py-1.5 bg-brand-surface border border-border-color rounded-md focus:outline-none focus:ring-brand-primary focus:border-brand-primary';
+
+  return (
+    <fieldset className="bg-brand-surface p-4 rounded-lg shadow-lg flex flex-col gap-2 text-sm" disabled={disabled}>
+      <legend className="sr-only">{t('stampOutputTitle')}</legend>
+      <h3 className="font-semibold" aria-hidden="true">{t('stampOutputTitle')}</h3>
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="radio"
+          name="stamp-output"
+          checked={value.mode === 'flatten'}
+          onChange={() => onChange({ mode: 'flatten' })}
+          className="accent-brand-primary"
+        />
+        <span>{t('stampOutputFlattenOption')}</span>
+      </label>
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="radio"
+          name="stamp-output"
+          checked={value.mode === 'annotation'}
+          onChange={() => onChange({ mode: 'annotation', author: '', subject: t('stampOutputDefaultSubject') })}
+          className="accent-brand-primary"
+        />
+        <span>{t('stampOutputAnnotationOption')}</span>
+      </label>
+      {value.mode === 'annotation' && (
+        <div className="flex flex-col gap-2 ps-6">
+          <p className="text-xs text-brand-text-secondary">{t('stampOutputAnnotationHint')}</p>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-brand-text-secondary">{t('stampOutputAuthorLabel')}</span>
+            <input
+              type="text"
+              autoComplete="name"
+              value={value.author}
+              onChange={(e) => onChange({ ...value, author: e.target.value })}
+              className={inputClassName}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-brand-text-secondary">{t('stampOutputSubjectLabel')}</span>
+            <input
+              type="text"
+              value={value.subject}
+              onChange={(e) => onChange({ ...value, subject: e.target.value })}
+              className={inputClassName}
+            />
+          </label>
+        </div>
+      )}
+      <label className={`flex items-start gap-2 mt-1 ${canAppendChanges ? 'cursor-pointer' : 'opacity-50 cursor-not-allowed'}`}>
+        <input
+          type="checkbox"
+          checked={appendChanges}
+          onChange={(e) => onAppendChangesChange(e.target.checked)}
+          disabled={!canAppendChanges}
+          className="mt-0.5 accent-brand-primary"
+        />
+        <span className="flex flex-col">
+          <span>{t('appendChangesOption')}</span>
+          <span className="text-xs text-brand-text-secondary">{t(canAppendChanges ? 'appendChangesHint' : 'appendChangesEncryptedHint')}</span>
+        </span>
+      </label>
+      {signedFieldCount > 0 && !appendChanges && (
+        <p className="p-2 rounded-md bg-amber-500/20 border border-amber-500/50 text-amber-500 text-xs" role="status">
+          {t('signedFieldsWarning')} ({signedFieldCount})
+        </p>
+      )}
+    </fieldset>
+  );
+};
+
+export default StampOutputOptions;
@@ -4,13 +4,14 @@ import { he } from '../locales/he';
 
 type Theme = 'light' | 'dark';
 type Language = 'en' | 'he';
+export type TranslationKey = keyof typeof en;
 
 interface SettingsContextType {
   theme: Theme;
   setTheme: (theme: Theme) => void;
   language: Language;
   setLanguage: (language: Language) => void;
-  t: (key: keyof typeof en) => string;
+  t: (key: TranslationKey) => string;
 }
 
 const translations = { en, he };
@@ -49,7 +50,7 @@ export const SettingsProvider: React.FC<{ children: React.ReactNode }> = ({ chil
   const setTheme = (newTheme: Theme) => setThemeState(newTheme);
   const setLanguage = (newLang: Language) => setLanguageState(newLang);
 
-  const t = useCallback((key: keyof typeof en): string => {
+  const t = useCallback((key: TranslationKey): string => {
     return translations[language][key] || translations.en[key];
   }, [language]);
 
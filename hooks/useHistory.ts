@@ -0,0 +1,86 @@
+import { useCallback, useReducer } from 'react';
+
+const MAX_HISTORY = 100;
+// Changes with the same merge key that follow each other within this time become one step
+const MERGE_WINDOW_MS = 1000;
+
+/** One recorded change, holding the state before and after it so it can be undone and redone. */
+interface HistoryEntry<T> {
+  before: T;
+  after: T;
+  mergeKey?: string;
+  time: number;
+}
+
+interface HistoryState<T> {
+  present: T;
+  past: HistoryEntry<T>[];
+  future: HistoryEntry<T>[];
+}
+
+type HistoryAction<T> =
+  | { type: 'apply'; update: (present: T) => T; mergeKey?: string; time: number }
+  | { type: 'undo' }
+  | { type: 'redo' };
+
+const historyReducer = <T>(state: HistoryState<T>, action: HistoryAction<T>): HistoryState<T> => {
+  switch (action.type) {
+    case 'apply': {
+      const next = action.update(state.present);
+      // Updates that return the state unchanged don't record a step
+      if (next === state.present) return state;
+      const last = state.past[state.past.length - 1];
+      if (action.mergeKey && last?.mergeKey === action.mergeKey && action.time - last.time < MERGE_WINDOW_MS) {
+        return {
+          present: next,
+          past: [...state.past.slice(0, -1), { ...last, after: next, time: action.time }],
+          future: [],
+        };
+      }
+      const entry = { before: state.present, after: next, mergeKey: action.mergeKey, time: action.time };
+      return { present: next, past: [...state.past, entry].slice(-MAX_HISTORY), future: [] };
+    }
+    case 'undo': {
+      const entry = state.past[state.past.length - 1];
+      if (!entry) return state;
+      // Clearing the merge key keeps a later change from being folded into an undone step
+      return {
+        present: entry.before,
+        past: state.past.slice(0, -1),
+        future: [{ ...entry, mergeKey: undefined }, ...state.future],
+      };
+    }
+    case 'redo': {
+      const [entry, ...future] = state.future;
+      if (!entry) return state;
+      return { present: entry.after, past: [...state.past, entry], future };
+    }
+  }
+};
+
+/**
+ * Keeps a value together with an undo/redo history of its changes.
+ * Every call to `apply` records one step, unless it is merged into the previous
+ * step because both share a `mergeKey`, such as the keystrokes typed into one
+ * text stamp. An update that returns its input unchanged records nothing.
+ */
+function useHistory<T>(initialState: T) {
+  const [state, dispatch] = useReducer(historyReducer<T>, { present: initialState, past: [], future: [] });
+
+  const apply = useCallback((update: (present: T) => T, mergeKey?: string) => {
+    dispatch({ type: 'apply', update, mergeKey, time: Date.now() });
+  }, []);
+  const undo = useCallback(() => dispatch({ type: 'undo' }), []);
+  const redo = useCallback(() => dispatch({ type: 'redo' }), []);
+
+  return {
+    present: state.present,
+    apply,
+    undo,
+    redo,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+  };
+}
+
+export default useHistory;
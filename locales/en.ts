@@ -3,13 +3,18 @@ export const en = {
   headerSubtitle: "Drag, drop, and position your image on any PDF page.",
   
   dropzonePdfPrompt: "Drop PDF Here",
-  dropzoneImagePrompt: "Drop Image Here",
+  dropzoneImagePrompt: "Drop Images Here",
+  dropzoneAppendPrompt: "Drop PDFs or Images to Add Pages",
   dropzoneProcessing: "Processing image...",
   dropzoneOrClick: "or click to browse",
 
-  transparentToggle: "Make white background transparent",
-  transparentTooltip: "Applies to newly uploaded images.",
+  transparentToggle: "Remove background from new images",
+  transparentTooltip: "New uploads use your last background settings. Select an image and click \"Background…\" to adjust it at any time.",
   
+  addTextButton: "Add Text",
+  drawSignatureButton: "Draw Signature",
+  defaultStampText: "Your text",
+
   previewAreaTitle: "PDF Preview Area",
   previewAreaSubtitle: "Once you upload a PDF file, it will be displayed here for you to edit.",
   
@@ -19,23 +24,233 @@ export const en = {
   // PdfEditor
   page: "Page",
   of: "of",
+  undoTooltip: "Undo (Ctrl+Z)",
+  redoTooltip: "Redo (Ctrl+Shift+Z)",
+  goToPageLabel: "Go to page",
+  thumbnailsLabel: "Page thumbnails",
+  thumbnailStampCount: "Stamps on this page",
+  zoomInTooltip: "Zoom In (Ctrl+Wheel)",
+  zoomOutTooltip: "Zoom Out (Ctrl+Wheel)",
+  fitWidthTooltip: "Fit Width",
+  fitPageTooltip: "Fit Page",
+  continuousScrollTooltip: "Continuous Scroll",
+  organizePagesTooltip: "Organize Pages",
+  zoomLevelLabel: "Zoom level",
   resetTooltip: "Reset Image Position & Size",
   removeTooltip: "Remove Image",
+  duplicateTooltip: "Duplicate Image",
+  bringForwardTooltip: "Bring Forward",
+  sendBackwardTooltip: "Send Backward",
   mergeButton: "Merge & Download",
   processingButton: "Processing...",
   
+  // PageOrganizer
+  organizerHint: "Drag pages to change their order. Click a page to open it in the editor. Stamps move along with their pages.",
+  rotatePageLeftTooltip: "Rotate Left",
+  rotatePageRightTooltip: "Rotate Right",
+  insertBlankPageTooltip: "Insert Blank Page After",
+  deletePageTooltip: "Delete Page",
+
+  // LayerOptionsBar
+  fontFamilyLabel: "Font",
+  fontSizeLabel: "Font size (pt)",
+  textColorLabel: "Text color",
+  textAlignLabel: "Alignment",
+  alignLeft: "Align left",
+  alignCenter: "Align center",
+  alignRight: "Align right",
+  editTextHint: "Double-click the text to edit it",
+  stampOnPages: "Stamp on",
+  pagesCurrent: "This page only",
+  pagesAll: "All pages",
+  pagesOdd: "Odd pages",
+  pagesEven: "Even pages",
+  pagesCustom: "Custom range",
+  pageRangePlaceholder: "e.g. 1,3-7,last",
+  anchorLabel: "Anchor",
+  anchorRelative: "Relative to page size",
+  anchorTopLeft: "Top-left corner",
+  anchorTopRight: "Top-right corner",
+  anchorBottomLeft: "Bottom-left corner",
+  anchorBottomRight: "Bottom-right corner",
+  actualSizeButton: "100%",
+  actualSizeTooltip: "Actual size, based on the image's pixel dimensions and DPI",
+  backgroundButton: "Background…",
+  backgroundTooltip: "Adjust background removal",
+  rotationLabel: "Angle",
+  tilingLabel: "Watermark",
+  tilingNone: "Off",
+  tilingGrid: "Tiled",
+  tilingDiagonal: "Diagonal",
+  tileSpacingLabel: "Spacing between copies (pt)",
+  opacityLabel: "Opacity",
+  blendModeLabel: "Blend",
+  blendNormal: "Normal",
+  blendMultiply: "Multiply",
+
+  // BatchPanel
+  batchTitle: "Batch",
+  batchReferenceHint: "Place your images on the reference document. The same placement is applied to every file.",
+  batchUseAsReference: "Use as reference document",
+  batchStatusPending: "Pending",
+  batchStatusProcessing: "Processing...",
+  batchStatusDone: "Done",
+  batchStatusError: "Failed",
+  batchProcessButton: "Apply to All & Download ZIP",
+
+  // StampLibraryPanel
+  stampLibraryTitle: "My Stamps",
+  stampLibraryHint: "Kept in this browser only. Click a stamp to place it, or drag it onto the page.",
+  stampLibraryEmpty: "No saved stamps yet. Select an image or signature on the page to save it here.",
+  stampNameLabel: "Stamp name",
+  saveStampButton: "Save Selected",
+  deleteStampTooltip: "Delete stamp",
+  exportLibraryButton: "Export",
+  importLibraryButton: "Import",
+  signatureStampName: "Signature",
+
+  // BackgroundRemovalDialog
+  backgroundDialogTitle: "Remove Background",
+  backgroundPreviewLabel: "Background removal preview",
+  backgroundKeyColorLabel: "Background color",
+  backgroundPickColorButton: "Pick from image",
+  backgroundPickColorHint: "Click the preview to pick the background color.",
+  backgroundToleranceLabel: "Tolerance",
+  backgroundFeatherLabel: "Soften edges",
+  backgroundEdgeOnlyLabel: "Only remove background connected to the edges",
+  backgroundKeepOriginalButton: "Keep Original",
+  backgroundCancelButton: "Cancel",
+  backgroundApplyButton: "Apply",
+
+  // SignaturePadModal
+  signaturePadTitle: "Draw your signature",
+  signaturePadHint: "Sign inside the box with a mouse, finger or pen.",
+  signaturePadLabel: "Signature drawing area",
+  signatureColorLabel: "Pen color",
+  signatureWidthLabel: "Pen width",
+  signatureUndoButton: "Undo stroke",
+  signatureClearButton: "Clear",
+  signatureCancelButton: "Cancel",
+  signatureAddButton: "Add Signature",
+
+  // PasswordDialog
+  passwordDialogTitle: "Password required",
+  passwordRequiredMessage: "This PDF is protected. Enter its password to open it.",
+  passwordIncorrectMessage: "That password is incorrect. Please try again.",
+  ownerPasswordMessage: "This PDF opens, but its owner doesn't allow changes. Enter the owner password to stamp it.",
+  ownerPasswordIncorrectMessage: "That isn't the owner password. Please try again.",
+  passwordLabel: "Password",
+  passwordSubmitButton: "Open",
+  passwordCancelButton: "Cancel",
+
+  // ImagePageSettings
+  imagePagesTitle: "Pages from images",
+  imagePagesHint: "Each added image goes on a new page at the end of the document.",
+  imagePageSizeLabel: "Page size",
+  imagePageSizeA4: "A4",
+  imagePageSizeLetter: "Letter",
+  imagePageSizeFit: "Fit to image",
+  imagePageMarginLabel: "Margin (mm)",
+  imagePageAutoOrientation: "Turn the page to landscape for wide images",
+
+  // EncryptionOptions
+  encryptionTitle: "Merged PDF password",
+  encryptionKeepOption: "Keep the original password and restrictions",
+  encryptionNewOption: "Set a new password",
+  encryptionNewPasswordLabel: "New password",
+
+  // CodeGeneratorPanel
+  codeGeneratorTitle: "QR codes and barcodes",
+  codeGeneratorHint: "Generate a code from text, such as a link, an order ID or a product number. It's placed as a sharp vector stamp.",
+  codeFormatLabel: "Format",
+  codeFormatQr: "QR code",
+  codeFormatCode128: "Code 128",
+  codeFormatEan13: "EAN-13",
+  qrErrorCorrectionLabel: "Error correction",
+  qrErrorCorrectionLow: "Low (7%)",
+  qrErrorCorrectionMedium: "Medium (15%)",
+  qrErrorCorrectionQuartile: "Quartile (25%)",
+  qrErrorCorrectionHigh: "High (30%)",
+  codeTextLabel: "Text to encode",
+  codeTextPlaceholder: "Text or link",
+  codeTextPlaceholderEan13: "12 or 13 digits",
+  placeCodeButton: "Place",
+
+  // PageNumberingOptions
+  numberingTitle: "Number pages",
+  numberingHint: "Adds page or Bates numbers to the merged PDF. In a batch, numbering continues from one file to the next.",
+  numberingPrefixLabel: "Prefix",
+  numberingPrefixPlaceholder: "e.g. ACME-",
+  numberingStartLabel: "Start at",
+  numberingPaddingLabel: "Digits",
+  numberingSkipLabel: "Skip first pages",
+  numberingPositionLabel: "Position",
+  numberingTopCenter: "Top center",
+  numberingBottomCenter: "Bottom center",
+  numberingExampleLabel: "First number:",
+
+  // StampOutputOptions
+  stampOutputTitle: "Save stamps as",
+  stampOutputFlattenOption: "Flatten",
+  stampOutputAnnotationOption: "Removable stamp annotations",
+  stampOutputAnnotationHint: "Each stamp can still be moved or deleted later in a PDF viewer such as Acrobat.",
+  stampOutputAuthorLabel: "Author",
+  stampOutputSubjectLabel: "Subject",
+  stampOutputDefaultSubject: "Approved",
+  appendChangesOption: "Append changes to the original file",
+  appendChangesHint: "Adds the stamps as an update after the original bytes, so existing digital signatures stay valid.",
+  appendChangesEncryptedHint: "Not available for password-protected PDFs, which are always rewritten.",
+  signedFieldsWarning: "This PDF is digitally signed. Rewriting it will invalidate its signatures; append the changes to keep them valid. Signed fields",
+  signedRewriteConfirm: "Rewriting this PDF will invalidate its digital signatures. Save anyway? Signed fields:",
+
+  // DigitalSignaturePanel
+  digitalSignatureTitle: "Digital signature",
+  digitalSignatureHint: "Sign the merged PDF with your certificate. The file and its key are only read in this browser tab and are never saved.",
+  certificateFileLabel: "Certificate file (.p12 or .pfx)",
+  certificatePasswordLabel: "Certificate password",
+  certificateLoadButton: "Load Certificate",
+  certificateValidUntil: "Valid until",
+  certificateRemoveButton: "Remove certificate",
+  signatureAppearanceLabel: "Visible signature",
+  signatureAppearanceInvisible: "None (invisible signature)",
+  signatureReasonLabel: "Reason (optional)",
+  digitalSignatureReady: "The merged PDF will be signed with this certificate.",
+
   // Draggable image alt
   draggableImageAlt: "Draggable image",
+  resizeTooltip: "Drag to resize (hold Shift to change the aspect ratio)",
+  editTextLabel: "Stamp text",
+  rotateTooltip: "Drag to rotate (hold Shift for free rotation)",
   
   // FileDropzone
   fileSizeKB: "KB",
 
   // Error messages
   errorInvalidPdf: "Invalid file type. Please upload a PDF.",
-  errorInvalidImage: "Invalid file type. Please upload an image.",
+  errorUnsupportedImageFiles: "These files are not a supported image type (PNG, JPG, WebP, GIF, BMP, TIFF or SVG):",
   errorProcessImage: "Failed to process image.",
-  errorMissingFiles: "Please upload both a PDF and an image file.",
-  errorUnsupportedImageType: "Unsupported image type. Please use PNG or JPG.",
+  errorMissingFiles: "Please upload a PDF and add at least one image or text.",
+  errorUnsupportedImageType: "Unsupported image type. Please use PNG, JPG, WebP, GIF, BMP, TIFF or SVG.",
+  errorInvalidPageRange: "Invalid page range. Use page numbers, ranges and \"last\", e.g. 1,3-7,last.",
+  errorBatchFailed: "None of the PDFs in the batch could be processed.",
+  errorLoadFont: "Failed to load the font. Check your internet connection and try again.",
+  errorStampLibrary: "Could not access the stamp library. Your browser may be blocking local storage.",
+  errorImportLibrary: "This file is not a valid stamp library export.",
+  errorPdfLoad: "Could not open this PDF. The file may be damaged.",
+  errorPdfPasswordCancelled: "The PDF was not opened because no password was entered.",
+  errorPdfRestricted: "This PDF can't be stamped without its owner password.",
+  errorPdfEncrypted: "This PDF is password-protected. Open it in the editor first to enter its password.",
+  errorMissingNewPassword: "Enter a new password for the merged PDF, or keep the original one.",
+  errorAppendEncrypted: "Changes can't be appended to a password-protected PDF.",
+  errorSignEncrypted: "Password-protected PDFs can't be signed. Remove the password first, or save without a digital signature.",
+  errorCertificatePassword: "The certificate password is incorrect.",
+  errorCertificateInvalid: "This file doesn't contain a certificate with an RSA private key. Use a .p12 or .pfx file.",
+  errorSignaturePlaceholderMissing: "The merged PDF has no room reserved for the digital signature, so it couldn't be signed.",
+  errorSignaturePlaceholderTooShort: "The room reserved for the digital signature in the merged PDF is too small, so it couldn't be signed.",
+  errorSignatureTooLarge: "The certificate chain is too large to fit in the signature.",
+  errorQrCodeTooLong: "This text is too long for a QR code. Shorten it or use a lower error correction level.",
+  errorInvalidCode128: "Code 128 barcodes can only contain letters, digits and symbols from the basic Latin alphabet.",
+  errorInvalidEan13: "An EAN-13 barcode needs 12 digits, or 13 digits with a correct check digit.",
   errorMerge: "An unknown error occurred during merging.",
 
   // Settings
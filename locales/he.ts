@@ -3,12 +3,17 @@ export const he = {
   headerSubtitle: "גרור, שחרר ומקם את התמונה שלך על כל עמוד PDF.",
 
   dropzonePdfPrompt: "שחרר קובץ PDF כאן",
-  dropzoneImagePrompt: "שחרר תמונה כאן",
+  dropzoneImagePrompt: "שחרר תמונות כאן",
+  dropzoneAppendPrompt: "שחרר קובצי PDF או תמונות להוספת עמודים",
   dropzoneProcessing: "מעבד תמונה...",
   dropzoneOrClick: "או לחץ לבחירה",
 
-  transparentToggle: "הפוך רקע לבן לשקוף",
-  transparentTooltip: "חל על תמונות חדשות שמועלות.",
+  transparentToggle: "הסר רקע מתמונות חדשות",
+  transparentTooltip: "העלאות חדשות משתמשות בהגדרות הרקע האחרונות שלך. בחר תמונה ולחץ על \"רקע…\" כדי לכוונן אותה בכל עת.",
+
+  addTextButton: "הוסף טקסט",
+  drawSignatureButton: "צייר חתימה",
+  defaultStampText: "הטקסט שלך",
 
   previewAreaTitle: "אזור תצוגה מקדימה",
   previewAreaSubtitle: "לאחר שתעלה קובץ PDF, הוא יוצג כאן לעריכה.",
@@ -19,23 +24,233 @@ export const he = {
   // PdfEditor
   page: "עמוד",
   of: "מתוך",
+  undoTooltip: "בטל (Ctrl+Z)",
+  redoTooltip: "בצע שוב (Ctrl+Shift+Z)",
+  goToPageLabel: "עבור לעמוד",
+  thumbnailsLabel: "תמונות ממוזערות של העמודים",
+  thumbnailStampCount: "חותמות בעמוד זה",
+  zoomInTooltip: "הגדל (Ctrl+גלגלת)",
+  zoomOutTooltip: "הקטן (Ctrl+גלגלת)",
+  fitWidthTooltip: "התאם לרוחב",
+  fitPageTooltip: "התאם לעמוד",
+  continuousScrollTooltip: "גלילה רציפה",
+  organizePagesTooltip: "ארגן עמודים",
+  zoomLevelLabel: "רמת הגדלה",
   resetTooltip: "אפס מיקום וגודל תמונה",
   removeTooltip: "הסר תמונה",
+  duplicateTooltip: "שכפל תמונה",
+  bringForwardTooltip: "הבא קדימה",
+  sendBackwardTooltip: "שלח אחורה",
   mergeButton: "מזג והורד",
   processingButton: "מעבד...",
 
+  // PageOrganizer
+  organizerHint: "יש לגרור עמודים כדי לשנות את סדרם. לחיצה על עמוד פותחת אותו בעורך. החותמות עוברות יחד עם העמודים שלהן.",
+  rotatePageLeftTooltip: "סובב שמאלה",
+  rotatePageRightTooltip: "סובב ימינה",
+  insertBlankPageTooltip: "הוסף עמוד ריק אחרי עמוד זה",
+  deletePageTooltip: "מחק עמוד",
+
+  // LayerOptionsBar
+  fontFamilyLabel: "גופן",
+  fontSizeLabel: "גודל גופן (נק')",
+  textColorLabel: "צבע טקסט",
+  textAlignLabel: "יישור",
+  alignLeft: "יישור לשמאל",
+  alignCenter: "מרכוז",
+  alignRight: "יישור לימין",
+  editTextHint: "לחץ פעמיים על הטקסט כדי לערוך אותו",
+  stampOnPages: "החתם על",
+  pagesCurrent: "עמוד זה בלבד",
+  pagesAll: "כל העמודים",
+  pagesOdd: "עמודים אי-זוגיים",
+  pagesEven: "עמודים זוגיים",
+  pagesCustom: "טווח מותאם",
+  pageRangePlaceholder: "לדוגמה 1,3-7,last",
+  anchorLabel: "עיגון",
+  anchorRelative: "יחסי לגודל העמוד",
+  anchorTopLeft: "פינה שמאלית עליונה",
+  anchorTopRight: "פינה ימנית עליונה",
+  anchorBottomLeft: "פינה שמאלית תחתונה",
+  anchorBottomRight: "פינה ימנית תחתונה",
+  actualSizeButton: "100%",
+  actualSizeTooltip: "גודל אמיתי, לפי ממדי התמונה בפיקסלים וה-DPI שלה",
+  backgroundButton: "רקע…",
+  backgroundTooltip: "כוונן את הסרת הרקע",
+  rotationLabel: "זווית",
+  tilingLabel: "סימן מים",
+  tilingNone: "כבוי",
+  tilingGrid: "אריחים",
+  tilingDiagonal: "אלכסוני",
+  tileSpacingLabel: "מרווח בין העותקים (נק')",
+  opacityLabel: "אטימות",
+  blendModeLabel: "מיזוג",
+  blendNormal: "רגיל",
+  blendMultiply: "הכפלה",
+
+  // BatchPanel
+  batchTitle: "אצווה",
+  batchReferenceHint: "מקם את התמונות על מסמך הייחוס. אותו מיקום יוחל על כל הקבצים.",
+  batchUseAsReference: "השתמש כמסמך ייחוס",
+  batchStatusPending: "ממתין",
+  batchStatusProcessing: "מעבד...",
+  batchStatusDone: "הושלם",
+  batchStatusError: "נכשל",
+  batchProcessButton: "החל על הכל והורד ZIP",
+
+  // StampLibraryPanel
+  stampLibraryTitle: "החותמות שלי",
+  stampLibraryHint: "נשמרות בדפדפן זה בלבד. לחץ על חותמת כדי למקם אותה, או גרור אותה אל העמוד.",
+  stampLibraryEmpty: "אין עדיין חותמות שמורות. בחר תמונה או חתימה בעמוד כדי לשמור אותה כאן.",
+  stampNameLabel: "שם החותמת",
+  saveStampButton: "שמור נבחר",
+  deleteStampTooltip: "מחק חותמת",
+  exportLibraryButton: "ייצא",
+  importLibraryButton: "ייבא",
+  signatureStampName: "חתימה",
+
+  // BackgroundRemovalDialog
+  backgroundDialogTitle: "הסרת רקע",
+  backgroundPreviewLabel: "תצוגה מקדימה של הסרת הרקע",
+  backgroundKeyColorLabel: "צבע הרקע",
+  backgroundPickColorButton: "בחר מהתמונה",
+  backgroundPickColorHint: "לחץ על התצוגה המקדימה כדי לבחור את צבע הרקע.",
+  backgroundToleranceLabel: "סבילות",
+  backgroundFeatherLabel: "ריכוך קצוות",
+  backgroundEdgeOnlyLabel: "הסר רק רקע המחובר לשולי התמונה",
+  backgroundKeepOriginalButton: "השאר מקור",
+  backgroundCancelButton: "ביטול",
+  backgroundApplyButton: "החל",
+
+  // SignaturePadModal
+  signaturePadTitle: "צייר את החתימה שלך",
+  signaturePadHint: "חתום בתוך המסגרת בעזרת עכבר, אצבע או עט.",
+  signaturePadLabel: "אזור ציור החתימה",
+  signatureColorLabel: "צבע העט",
+  signatureWidthLabel: "עובי העט",
+  signatureUndoButton: "ביטול קו",
+  signatureClearButton: "נקה",
+  signatureCancelButton: "ביטול",
+  signatureAddButton: "הוסף חתימה",
+
+  // PasswordDialog
+  passwordDialogTitle: "נדרשת סיסמה",
+  passwordRequiredMessage: "קובץ ה-PDF מוגן. יש להזין את הסיסמה כדי לפתוח אותו.",
+  passwordIncorrectMessage: "הסיסמה שגויה. יש לנסות שוב.",
+  ownerPasswordMessage: "קובץ ה-PDF נפתח, אך הבעלים שלו אינו מתיר שינויים. יש להזין את סיסמת הבעלים כדי להחתים אותו.",
+  ownerPasswordIncorrectMessage: "זו אינה סיסמת הבעלים. יש לנסות שוב.",
+  passwordLabel: "סיסמה",
+  passwordSubmitButton: "פתיחה",
+  passwordCancelButton: "ביטול",
+
+  // ImagePageSettings
+  imagePagesTitle: "עמודים מתמונות",
+  imagePagesHint: "כל תמונה שנוספת מוצבת בעמוד חדש בסוף המסמך.",
+  imagePageSizeLabel: "גודל עמוד",
+  imagePageSizeA4: "A4",
+  imagePageSizeLetter: "Letter",
+  imagePageSizeFit: "לפי גודל התמונה",
+  imagePageMarginLabel: "שוליים (מ\"מ)",
+  imagePageAutoOrientation: "סיבוב העמוד לרוחב עבור תמונות רחבות",
+
+  // EncryptionOptions
+  encryptionTitle: "סיסמת ה-PDF הממוזג",
+  encryptionKeepOption: "שמירת הסיסמה וההגבלות המקוריות",
+  encryptionNewOption: "הגדרת סיסמה חדשה",
+  encryptionNewPasswordLabel: "סיסמה חדשה",
+
+  // CodeGeneratorPanel
+  codeGeneratorTitle: "קודי QR וברקודים",
+  codeGeneratorHint: "יצירת קוד מטקסט, כמו קישור, מספר הזמנה או מק\"ט. הקוד ממוקם כחותמת וקטורית חדה.",
+  codeFormatLabel: "פורמט",
+  codeFormatQr: "קוד QR",
+  codeFormatCode128: "Code 128",
+  codeFormatEan13: "EAN-13",
+  qrErrorCorrectionLabel: "תיקון שגיאות",
+  qrErrorCorrectionLow: "נמוך (7%)",
+  qrErrorCorrectionMedium: "בינוני (15%)",
+  qrErrorCorrectionQuartile: "רבעוני (25%)",
+  qrErrorCorrectionHigh: "גבוה (30%)",
+  codeTextLabel: "טקסט לקידוד",
+  codeTextPlaceholder: "טקסט או קישור",
+  codeTextPlaceholderEan13: "12 או 13 ספרות",
+  placeCodeButton: "מקם",
+
+  // PageNumberingOptions
+  numberingTitle: "מספור עמודים",
+  numberingHint: "הוספת מספרי עמודים או מספרי בייטס ל-PDF הממוזג. במצב אצווה המספור ממשיך מקובץ לקובץ.",
+  numberingPrefixLabel: "קידומת",
+  numberingPrefixPlaceholder: "לדוגמה ACME-",
+  numberingStartLabel: "התחלה מ-",
+  numberingPaddingLabel: "מספר ספרות",
+  numberingSkipLabel: "דילוג על עמודים ראשונים",
+  numberingPositionLabel: "מיקום",
+  numberingTopCenter: "למעלה במרכז",
+  numberingBottomCenter: "למטה במרכז",
+  numberingExampleLabel: "המספר הראשון:",
+
+  // StampOutputOptions
+  stampOutputTitle: "שמירת החותמות",
+  stampOutputFlattenOption: "שיטוח",
+  stampOutputAnnotationOption: "הערות חותמת ניתנות להסרה",
+  stampOutputAnnotationHint: "ניתן יהיה להזיז או למחוק כל חותמת גם מאוחר יותר בתוכנת PDF כמו Acrobat.",
+  stampOutputAuthorLabel: "מחבר",
+  stampOutputSubjectLabel: "נושא",
+  stampOutputDefaultSubject: "מאושר",
+  appendChangesOption: "הוספת השינויים לקובץ המקורי",
+  appendChangesHint: "החותמות נוספות כעדכון אחרי התוכן המקורי, כך שחתימות דיגיטליות קיימות נשארות תקפות.",
+  appendChangesEncryptedHint: "לא זמין לקובצי PDF מוגני סיסמה, שנכתבים תמיד מחדש.",
+  signedFieldsWarning: "קובץ ה-PDF חתום דיגיטלית. כתיבתו מחדש תבטל את תוקף החתימות; יש להוסיף את השינויים כדי לשמור על תוקפן. שדות חתומים",
+  signedRewriteConfirm: "כתיבה מחדש של קובץ ה-PDF תבטל את תוקף החתימות הדיגיטליות שלו. לשמור בכל זאת? שדות חתומים:",
+
+  // DigitalSignaturePanel
+  digitalSignatureTitle: "חתימה דיגיטלית",
+  digitalSignatureHint: "חתימה על ה-PDF הממוזג באמצעות האישור שלך. הקובץ והמפתח שבו נקראים רק בלשונית זו ואינם נשמרים.",
+  certificateFileLabel: "קובץ אישור (‎.p12 או ‎.pfx)",
+  certificatePasswordLabel: "סיסמת האישור",
+  certificateLoadButton: "טען אישור",
+  certificateValidUntil: "בתוקף עד",
+  certificateRemoveButton: "הסר אישור",
+  signatureAppearanceLabel: "חתימה גלויה",
+  signatureAppearanceInvisible: "ללא (חתימה בלתי נראית)",
+  signatureReasonLabel: "סיבה (לא חובה)",
+  digitalSignatureReady: "ה-PDF הממוזג ייחתם באמצעות אישור זה.",
+
   // Draggable image alt
   draggableImageAlt: "תמונה ניתנת לגרירה",
+  resizeTooltip: "גרור לשינוי גודל (החזק Shift לשינוי יחס הממדים)",
+  editTextLabel: "טקסט החותמת",
+  rotateTooltip: "גרור לסיבוב (החזק Shift לסיבוב חופשי)",
 
   // FileDropzone
   fileSizeKB: "ק\"ב",
 
   // Error messages
   errorInvalidPdf: "סוג קובץ לא חוקי. יש להעלות קובץ PDF.",
-  errorInvalidImage: "סוג קובץ לא חוקי. יש להעלות תמונה.",
+  errorUnsupportedImageFiles: "הקבצים הבאים אינם תמונות בפורמט נתמך (PNG, JPG, WebP, GIF, BMP, TIFF או SVG):",
   errorProcessImage: "נכשל בעיבוד התמונה.",
-  errorMissingFiles: "יש להעלות קובץ PDF ותמונה.",
-  errorUnsupportedImageType: "סוג תמונה לא נתמך. יש להשתמש ב-PNG או JPG.",
+  errorMissingFiles: "יש להעלות קובץ PDF ולהוסיף לפחות תמונה או טקסט אחד.",
+  errorUnsupportedImageType: "סוג תמונה לא נתמך. יש להשתמש ב-PNG, JPG, WebP, GIF, BMP, TIFF או SVG.",
+  errorInvalidPageRange: "טווח עמודים לא חוקי. יש להשתמש במספרי עמודים, טווחים ו-\"last\", לדוגמה 1,3-7,last.",
+  errorBatchFailed: "לא ניתן היה לעבד אף אחד מקובצי ה-PDF באצווה.",
+  errorLoadFont: "טעינת הגופן נכשלה. בדוק את החיבור לאינטרנט ונסה שוב.",
+  errorStampLibrary: "לא ניתן לגשת לספריית החותמות. ייתכן שהדפדפן חוסם אחסון מקומי.",
+  errorImportLibrary: "הקובץ אינו ייצוא תקין של ספריית חותמות.",
+  errorPdfLoad: "לא ניתן לפתוח את קובץ ה-PDF. ייתכן שהקובץ פגום.",
+  errorPdfPasswordCancelled: "קובץ ה-PDF לא נפתח כי לא הוזנה סיסמה.",
+  errorPdfRestricted: "לא ניתן להחתים את קובץ ה-PDF ללא סיסמת הבעלים שלו.",
+  errorPdfEncrypted: "קובץ ה-PDF מוגן בסיסמה. יש לפתוח אותו קודם בעורך כדי להזין את הסיסמה.",
+  errorMissingNewPassword: "יש להזין סיסמה חדשה ל-PDF הממוזג, או לשמור את הסיסמה המקורית.",
+  errorAppendEncrypted: "לא ניתן להוסיף שינויים לקובץ PDF מוגן בסיסמה.",
+  errorSignEncrypted: "לא ניתן לחתום על קובצי PDF מוגני סיסמה. יש להסיר את הסיסמה או לשמור ללא חתימה דיגיטלית.",
+  errorCertificatePassword: "סיסמת האישור שגויה.",
+  errorCertificateInvalid: "הקובץ אינו מכיל אישור עם מפתח פרטי מסוג RSA. יש להשתמש בקובץ ‎.p12 או ‎.pfx.",
+  errorSignaturePlaceholderMissing: "ב-PDF הממוזג לא נשמר מקום לחתימה הדיגיטלית, ולכן לא ניתן היה לחתום עליו.",
+  errorSignaturePlaceholderTooShort: "המקום שנשמר לחתימה הדיגיטלית ב-PDF הממוזג קטן מדי, ולכן לא ניתן היה לחתום עליו.",
+  errorSignatureTooLarge: "שרשרת האישורים גדולה מכדי להיכנס לחתימה.",
+  errorQrCodeTooLong: "הטקסט ארוך מדי לקוד QR. יש לקצר אותו או לבחור רמת תיקון שגיאות נמוכה יותר.",
+  errorInvalidCode128: "ברקוד Code 128 יכול להכיל רק אותיות, ספרות וסימנים מהאלפבית הלטיני הבסיסי.",
+  errorInvalidEan13: "ברקוד EAN-13 דורש 12 ספרות, או 13 ספרות עם ספרת ביקורת נכונה.",
   errorMerge: "אירעה שגיאה לא ידועה במהלך המיזוג.",
   
   // Settings
@@ -0,0 +1,307 @@
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+/** An affine transform [a, b, c, d, e, f], mapping (x, y) to (ax + cy + e, bx + dy + f) as in PDF and SVG. */
+export type Matrix = [number, number, number, number, number, number];
+
+/**
+ * How a PDF page is shown: the visible part of its user space and how it is turned.
+ * Layers are placed in display coordinates, in points from the top-left corner of
+ * the page as it appears on screen.
+ */
+export interface PageGeometry {
+  /** The visible area (CropBox within MediaBox) in PDF user space, as [left, bottom, right, top]. */
+  viewBox: [number, number, number, number];
+  /** The clockwise rotation from the /Rotate entry: 0, 90, 180 or 270. */
+  rotation: number;
+}
+
+export type PageSelectionMode = 'current' | 'all' | 'odd' | 'even' | 'custom';
+
+/**
+ * The pages a layer is stamped on. `range` is only used in 'custom' mode and
+ * holds a page range such as "1,3-7,last".
+ */
+export interface PageSelection {
+  mode: PageSelectionMode;
+  range: string;
+}
+
+/**
+ * How a placement is carried over to pages of a different size. 'relative' keeps
+ * the position proportional to the page size; the corner anchors keep a fixed
+ * distance from that corner of the page.
+ */
+export type PlacementAnchor = 'relative' | 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export interface ImageInfo {
+  /** The pixel dimensions of the image. */
+  naturalSize: Size;
+  /** The horizontal and vertical resolution in dots per inch. */
+  dpi: { x: number; y: number };
+}
+
+export type BlendMode = 'normal' | 'multiply';
+
+export type FontFamily = 'alef' | 'david-libre' | 'secular-one';
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+/** How the background is keyed out of an uploaded image. */
+export interface BackgroundRemovalSettings {
+  /** The color to remove, as a hex color such as "#ffffff". */
+  keyColor: string;
+  /** How far a color may be from the key color and still be removed, from 0 to 100. */
+  tolerance: number;
+  /** Only remove background that is connected to the edges of the image, keeping enclosed areas. */
+  edgeOnly: boolean;
+  /** The width in pixels over which the edges of the kept area fade out. */
+  feather: number;
+}
+
+export type TilingPattern = 'grid' | 'diagonal';
+
+/**
+ * Repeats a layer across the page as a watermark. Every copy has the size and
+ * rotation of the layer's box, and the copies are laid out from the box in rows
+ * that run in the direction it is turned.
+ */
+export interface TilingSettings {
+  /** 'grid' fills the page with rows and columns; 'diagonal' repeats the box along a single row. */
+  pattern: TilingPattern;
+  /** The space between neighboring copies, in points. */
+  spacing: number;
+}
+
+/**
+ * The properties shared by every kind of layer. Position and size are stored in
+ * PDF points relative to the top-left corner of the page, so they are independent
+ * of the zoom level the page is currently rendered at. `pageIndex` is the page
+ * the layer was placed on; `pageSelection` may stamp it onto further pages.
+ */
+interface LayerBase {
+  id: string;
+  position: Point;
+  size: Size;
+  pageIndex: number;
+  pageSelection: PageSelection;
+  anchor: PlacementAnchor;
+  /** Clockwise rotation around the center of the box, in degrees. */
+  rotation: number;
+  /** Opacity between 0 and 1. */
+  opacity: number;
+  blendMode: BlendMode;
+  /** Repeats the layer as a watermark, or null to place it once. */
+  tiling: TilingSettings | null;
+}
+
+/** A raster image placed on the document. */
+export interface ImageLayer extends LayerBase {
+  kind: 'image';
+  /** The image that is placed, after background removal. */
+  file: File;
+  objectUrl: string;
+  imageInfo: ImageInfo;
+  /** The upload before background removal, kept so the removal can be adjusted later. */
+  originalFile: File;
+  /** The settings `file` was produced with, or null if it is the original. */
+  backgroundRemoval: BackgroundRemovalSettings | null;
+}
+
+/**
+ * A block of text written into the PDF as vector text. Lines are separated by
+ * newlines and the box is always sized to fit the text at `fontSize` points.
+ */
+export interface TextLayer extends LayerBase {
+  kind: 'text';
+  text: string;
+  fontFamily: FontFamily;
+  fontSize: number;
+  /** A hex color such as "#1c1c1e". */
+  color: string;
+  align: TextAlign;
+}
+
+/** A point on a pen stroke, with the width of the pen where it passed through. */
+export interface StrokePoint {
+  x: number;
+  y: number;
+  width: number;
+}
+
+export interface SignatureStroke {
+  /** A hex color such as "#1c1c1e". */
+  color: string;
+  points: StrokePoint[];
+}
+
+/**
+ * A hand-drawn signature kept as vector strokes. The strokes are in their own
+ * coordinate space of `contentSize`, which is stretched to fill the layer's box.
+ */
+export interface DrawingLayer extends LayerBase {
+  kind: 'drawing';
+  strokes: SignatureStroke[];
+  contentSize: Size;
+}
+
+/**
+ * One filled and/or stroked path of an SVG. Colors are resolved from the SVG's
+ * styles when it is imported, so no CSS is needed to draw it.
+ */
+export interface VectorShape {
+  path: string;
+  /** Maps the path's own coordinates into the layer's content space. */
+  transform: Matrix;
+  /** A hex color, or null if the shape is not filled. */
+  fill: string | null;
+  /** A hex color, or null if the shape is not stroked. */
+  stroke: string | null;
+  strokeWidth: number;
+  lineCap: 'butt' | 'round' | 'square';
+  lineJoin: 'miter' | 'round' | 'bevel';
+  /** Dash and gap lengths of the stroke, empty for a solid line. */
+  dashArray: number[];
+  dashOffset: number;
+  /** Fill and stroke opacity, including the opacity of the groups around the shape. */
+  fillOpacity: number;
+  strokeOpacity: number;
+}
+
+/**
+ * An SVG placed as vector paths, so it stays sharp at any zoom level. The shapes
+ * are in a content space that starts at the top-left of the SVG's viewBox and is
+ * `contentSize` large; it is stretched to fill the layer's box.
+ */
+export interface VectorLayer extends LayerBase {
+  kind: 'vector';
+  file: File;
+  shapes: VectorShape[];
+  contentSize: Size;
+}
+
+export type Layer = ImageLayer | TextLayer | DrawingLayer | VectorLayer;
+
+/** Changes that can be applied to a layer of any kind. */
+export type LayerChanges = Partial<Omit<ImageLayer, 'id' | 'kind'>>
+  & Partial<Omit<TextLayer, 'id' | 'kind'>>
+  & Partial<Omit<DrawingLayer, 'id' | 'kind'>>
+  & Partial<Omit<VectorLayer, 'id' | 'kind'>>;
+
+export type CodeFormat = 'qr' | 'code128' | 'ean13';
+
+/** How much of a QR code can be damaged and still be read: about 7%, 15%, 25% or 30%. */
+export type QrErrorCorrection = 'L' | 'M' | 'Q' | 'H';
+
+/** What a library stamp places: a processed image, a drawn signature, or an SVG. */
+export type StampContent =
+  | { kind: 'image'; blob: Blob; fileName: string; imageInfo: ImageInfo }
+  | { kind: 'drawing'; strokes: SignatureStroke[]; contentSize: Size }
+  | { kind: 'vector'; blob: Blob; fileName: string; shapes: VectorShape[]; contentSize: Size };
+
+/** A stamp saved in the local library, so it can be placed again without re-processing. */
+export interface LibraryStamp {
+  id: string;
+  name: string;
+  createdAt: number;
+  /** A small PNG data URL shown in the library. */
+  thumbnail: string;
+  /** The size the stamp is placed at, in points. */
+  defaultSize: Size;
+  defaultAnchor: PlacementAnchor;
+  content: StampContent;
+}
+
+/**
+ * A page of the document as arranged in the page organizer: a page of the
+ * original PDF, or a blank page inserted in the editor. `rotation` is added
+ * clockwise to the page's own rotation, in quarter turns of 0, 90, 180 or 270.
+ */
+export type OrganizedPage =
+  | { id: string; kind: 'original'; sourceIndex: number; rotation: number }
+  | { id: string; kind: 'blank'; size: Size; rotation: number };
+
+/** The page arrangement of a PDF. It only applies while that file is the one open. */
+export interface PageOrganization {
+  file: File;
+  pages: OrganizedPage[];
+}
+
+export type ImagePageSize = 'a4' | 'letter' | 'fit';
+
+/** How an image added to the document is laid out on a page of its own. */
+export interface ImagePageOptions {
+  /** A paper size the image is fitted into, or 'fit' for a page the size of the image. */
+  pageSize: ImagePageSize;
+  /** The space left around the image, in millimeters. */
+  margin: number;
+  /** Turns the paper sideways for images that are wider than they are tall. */
+  autoOrientation: boolean;
+}
+
+export type NumberingPosition = 'top-left' | 'top-center' | 'top-right' | 'bottom-left' | 'bottom-center' | 'bottom-right';
+
+/**
+ * Sequential numbers written on the pages of the merged PDF, such as page numbers
+ * or Bates numbers like "ACME-000123".
+ */
+export interface PageNumbering {
+  enabled: boolean;
+  /** Text written before the number, such as "ACME-". */
+  prefix: string;
+  /** The number of the first numbered page. */
+  start: number;
+  /** The least number of digits, filled up with leading zeros. */
+  padding: number;
+  position: NumberingPosition;
+  /** The font size in points. */
+  fontSize: number;
+  /** The number of pages at the start of each document that are left unnumbered, such as a cover page. */
+  skipPages: number;
+}
+
+/**
+ * How layers are written into the merged PDF. 'flatten' draws them into the page
+ * content for good; 'annotation' adds each one as a Stamp annotation, which can
+ * still be moved or deleted later in a PDF viewer.
+ */
+export type StampOutput =
+  | { mode: 'flatten' }
+  | { mode: 'annotation'; author: string; subject: string };
+
+/**
+ * How an encrypted PDF was opened. The owner password is only known when the
+ * owner restricted changes and the user entered it to stamp the file.
+ */
+export interface PdfProtection {
+  /** The password needed to open the file, or an empty string if it opens without one. */
+  userPassword: string;
+  ownerPassword: string | null;
+  /** The pdf.js permission flags for the things the owner allows. */
+  permissions: number[];
+}
+
+/**
+ * How the stamped copy of an encrypted PDF is encrypted: with the same passwords
+ * and restrictions as the original, or with a new password of the user's choosing.
+ */
+export type OutputEncryption =
+  | { mode: 'keep' }
+  | { mode: 'new'; password: string };
+
+export type BatchItemStatus = 'pending' | 'processing' | 'done' | 'error';
+
+/** A PDF in a batch that the placement from the reference document is applied to. */
+export interface BatchItem {
+  id: string;
+  file: File;
+  status: BatchItemStatus;
+  error?: string;
+}
@@ -0,0 +1,66 @@
+import { BackgroundRemovalSettings } from '../types';
+import type { BackgroundRemovalRequest, BackgroundRemovalResponse } from '../workers/backgroundRemoval.worker';
+
+/** Removes near-white backgrounds, like the fixed threshold used before the settings existed. */
+export const DEFAULT_BACKGROUND_REMOVAL: BackgroundRemovalSettings = {
+  keyColor: '#ffffff',
+  tolerance: 6,
+  edgeOnly: false,
+  feather: 0,
+};
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, { resolve: (response: BackgroundRemovalResponse) => void; reject: (err: unknown) => void }>();
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('../workers/backgroundRemoval.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<BackgroundRemovalResponse>) => {
+      const request = pendingRequests.get(event.data.id);
+      pendingRequests.delete(event.data.id);
+      if (!request) return;
+      if ('error' in event.data) request.reject(new Error(event.data.error));
+      else request.resolve(event.data);
+    };
+    worker.onerror = (event) => {
+      // A worker that failed to load can't answer anything that is still waiting
+      pendingRequests.forEach(request => request.reject(new Error(event.message)));
+      pendingRequests.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  return worker;
+};
+
+const runInWorker = (request: Omit<BackgroundRemovalRequest, 'id'>): Promise<BackgroundRemovalResponse> => {
+  return new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    pendingRequests.set(id, { resolve, reject });
+    getWorker().postMessage({ ...request, id } satisfies BackgroundRemovalRequest);
+  });
+};
+
+/**
+ * Removes the background of an image in a Web Worker.
+ * @param image The original image. Pass the upload rather than an earlier result,
+ * so that adjusting the settings never compounds on a previous removal.
+ * @returns A PNG file with the same name and a .png extension.
+ */
+export const removeBackground = async (image: File, settings: BackgroundRemovalSettings): Promise<File> => {
+  const response = await runInWorker({ image, settings, output: 'png' });
+  if (!('blob' in response)) throw new Error('Unexpected response from the background removal worker');
+  const baseName = image.name.includes('.') ? image.name.substring(0, image.name.lastIndexOf('.')) : image.name;
+  return new File([response.blob], `${baseName}.png`, { type: 'image/png' });
+};
+
+/**
+ * Renders a downscaled preview of the background removal in a Web Worker.
+ * @param maxSide The length of the longer side of the preview, in pixels.
+ */
+export const previewBackgroundRemoval = async (image: File, settings: BackgroundRemovalSettings, maxSide: number): Promise<ImageData> => {
+  const response = await runInWorker({ image, settings, maxSide, output: 'pixels' });
+  if (!('pixels' in response)) throw new Error('Unexpected response from the background removal worker');
+  return response.pixels;
+};
@@ -0,0 +1,86 @@
+// The bar and space widths of each Code 128 symbol value, in modules, starting with a bar
+const CODE128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112',
+];
+const CODE128_CODE_B = 100;
+const CODE128_START_B = 104;
+const CODE128_START_C = 105;
+const CODE128_STOP = 106;
+
+// EAN-13 digit patterns, where 1 is a bar. The right half uses the complement of L,
+// and the G patterns are the right-half patterns mirrored
+const EAN_L_PATTERNS = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+// The first digit isn't drawn, but sets which digits of the left half use G instead of L patterns
+const EAN_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+
+const invertPattern = (pattern: string) => pattern.replace(/[01]/g, bit => bit === '1' ? '0' : '1');
+
+/**
+ * Encodes text as a Code 128 barcode. Text made up only of digits is encoded
+ * in code set C, two digits per symbol; anything else uses code set B.
+ * @param text Printable ASCII text, such as an order ID.
+ * @returns The modules from left to right, true for a bar, or null if the text can't be encoded.
+ */
+export const encodeCode128 = (text: string): boolean[] | null => {
+  if (text.length === 0 || !/^[\x20-\x7f]*$/.test(text)) return null;
+  const values: number[] = [];
+  if (/^\d{2,}$/.test(text)) {
+    values.push(CODE128_START_C);
+    for (let i = 0; i + 1 < text.length; i += 2) values.push(parseInt(text.slice(i, i + 2), 10));
+    // An odd digit at the end is written in code set B
+    if (text.length % 2 === 1) values.push(CODE128_CODE_B, text.charCodeAt(text.length - 1) - 32);
+  } else {
+    values.push(CODE128_START_B);
+    for (const char of text) values.push(char.charCodeAt(0) - 32);
+  }
+  const checksum = values.reduce((sum, value, index) => sum + value * Math.max(1, index), 0) % 103;
+  values.push(checksum, CODE128_STOP);
+
+  const modules: boolean[] = [];
+  values.forEach(value => {
+    [...CODE128_PATTERNS[value]].forEach((width, index) => {
+      for (let i = 0; i < Number(width); i++) modules.push(index % 2 === 0);
+    });
+  });
+  return modules;
+};
+
+/** Computes the check digit of the first 12 digits of an EAN-13 number. */
+const getEanCheckDigit = (digits: string): number => {
+  const sum = [...digits.slice(0, 12)].reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3), 0);
+  return (10 - sum % 10) % 10;
+};
+
+/**
+ * Encodes a number as an EAN-13 barcode.
+ * @param digits 12 digits, to which the check digit is added, or all 13 digits.
+ * @returns The 95 modules from left to right, true for a bar, or null if the
+ * digits are invalid or the check digit doesn't match.
+ */
+export const encodeEan13 = (digits: string): boolean[] | null => {
+  if (!/^\d{12,13}$/.test(digits)) return null;
+  const checkDigit = getEanCheckDigit(digits);
+  if (digits.length === 13 && Number(digits[12]) !== checkDigit) return null;
+  const number = digits.slice(0, 12) + checkDigit;
+
+  const parity = EAN_PARITY[Number(number[0])];
+  let pattern = '101';
+  for (let i = 1; i <= 6; i++) {
+    const right = invertPattern(EAN_L_PATTERNS[Number(number[i])]);
+    pattern += parity[i - 1] === 'L' ? EAN_L_PATTERNS[Number(number[i])] : [...right].reverse().join('');
+  }
+  pattern += '01010';
+  for (let i = 7; i <= 12; i++) pattern += invertPattern(EAN_L_PATTERNS[Number(number[i])]);
+  pattern += '101';
+  return [...pattern].map(bit => bit === '1');
+};
@@ -0,0 +1,40 @@
+// bidi-js implements the Unicode Bidirectional Algorithm and is loaded from a CDN like pdf.js
+const bidiPromise = import( /* @vite-ignore */ 'https://unpkg.com/bidi-js@1.0.3/dist/bidi.mjs')
+  .then(module => module.default());
+
+/**
+ * Reorders a line of text from logical (typed) order into the left-to-right
+ * visual order it is displayed in. PDF text is drawn glyph by glyph from left
+ * to right, so Hebrew and mixed Hebrew/English text has to be reordered before
+ * it is written. The base direction is taken from the first strong character,
+ * matching `unicode-bidi: plaintext` in the preview. Mirrored characters such
+ * as parentheses are swapped inside right-to-left runs, and combining marks
+ * such as niqqud stay after the letter they belong to.
+ * @example
+ * await toVisualOrder('שָׁלוֹם (1)'); // '(1) םוֹלשָׁ'
+ * @param line A single line of text, without newlines.
+ * @returns The line in visual order.
+ */
+export const toVisualOrder = async (line: string): Promise<string> => {
+  const bidi = await bidiPromise;
+  const embeddingLevels = bidi.getEmbeddingLevels(line);
+  // bidi-js indexes the line by UTF-16 code units. Each character, with the combining marks
+  // after it, is kept whole in its first code unit and the rest are left empty, so reordering
+  // never splits surrogate pairs or moves niqqud off its letter
+  const chars = new Array<string>(line.length).fill('');
+  for (const match of line.matchAll(/\P{M}\p{M}*|\p{M}+/gu)) {
+    chars[match.index] = match[0];
+  }
+
+  const mirrored: Map<number, string> = bidi.getMirroredCharactersMap(line, embeddingLevels.levels);
+  mirrored.forEach((char, index) => {
+    chars[index] = char + chars[index].slice(1);
+  });
+
+  const segments: [number, number][] = bidi.getReorderSegments(line, embeddingLevels);
+  for (const [start, end] of segments) {
+    const reversed = chars.slice(start, end + 1).reverse();
+    chars.splice(start, reversed.length, ...reversed);
+  }
+  return chars.join('');
+};
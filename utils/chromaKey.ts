@@ -0,0 +1,97 @@
+import { BackgroundRemovalSettings } from '../types';
+
+// The largest distance between two RGB colors, from black to white
+const MAX_COLOR_DISTANCE = 255 * Math.sqrt(3);
+
+const parseHexColor = (hex: string) => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return { r: (value >> 16) & 0xff, g: (value >> 8) & 0xff, b: value & 0xff };
+};
+
+/**
+ * Blurs a mask with a box filter, horizontally and then vertically, so each pass
+ * costs the same regardless of the radius. Pixels past the border repeat the edge.
+ */
+const boxBlur = (mask: Float32Array, width: number, height: number, radius: number): Float32Array => {
+  const blurLine = (source: Float32Array, target: Float32Array, start: number, stride: number, length: number) => {
+    const size = radius * 2 + 1;
+    const at = (i: number) => source[start + Math.min(length - 1, Math.max(0, i)) * stride];
+    let sum = 0;
+    for (let i = -radius; i <= radius; i++) sum += at(i);
+    for (let i = 0; i < length; i++) {
+      target[start + i * stride] = sum / size;
+      sum += at(i + radius + 1) - at(i - radius);
+    }
+  };
+
+  const horizontal = new Float32Array(mask.length);
+  for (let y = 0; y < height; y++) blurLine(mask, horizontal, y * width, 1, width);
+  const result = new Float32Array(mask.length);
+  for (let x = 0; x < width; x++) blurLine(horizontal, result, x, width, height);
+  return result;
+};
+
+/**
+ * Makes the background of an image transparent, in place.
+ * A pixel is background when its color is within `tolerance` of the key color;
+ * in edge-only mode it must also be connected to the border of the image through
+ * other background pixels, so enclosed areas such as the inside of a logo stay.
+ * Feathering fades out the kept pixels next to removed ones instead of cutting them hard.
+ * @param pixels RGBA pixel data, as in ImageData.
+ */
+export const keyOutBackground = (pixels: Uint8ClampedArray, width: number, height: number, settings: BackgroundRemovalSettings): void => {
+  const key = parseHexColor(settings.keyColor);
+  const maxDistance = settings.tolerance / 100 * MAX_COLOR_DISTANCE;
+  const maxDistanceSquared = maxDistance * maxDistance;
+  const pixelCount = width * height;
+
+  const isBackground = (index: number) => {
+    const offset = index * 4;
+    const dr = pixels[offset] - key.r;
+    const dg = pixels[offset + 1] - key.g;
+    const db = pixels[offset + 2] - key.b;
+    return dr * dr + dg * dg + db * db <= maxDistanceSquared;
+  };
+
+  // 1 keeps a pixel, 0 removes it
+  const mask = new Float32Array(pixelCount).fill(1);
+  if (settings.edgeOnly) {
+    // Flood fill from every background pixel on the border; each pixel is queued at most once
+    const stack = new Int32Array(pixelCount);
+    let stackSize = 0;
+    const visit = (index: number) => {
+      if (mask[index] === 1 && isBackground(index)) {
+        mask[index] = 0;
+        stack[stackSize++] = index;
+      }
+    };
+    for (let x = 0; x < width; x++) {
+      visit(x);
+      visit((height - 1) * width + x);
+    }
+    for (let y = 0; y < height; y++) {
+      visit(y * width);
+      visit(y * width + width - 1);
+    }
+    while (stackSize > 0) {
+      const index = stack[--stackSize];
+      const x = index % width;
+      if (x > 0) visit(index - 1);
+      if (x < width - 1) visit(index + 1);
+      if (index >= width) visit(index - width);
+      if (index < pixelCount - width) visit(index + width);
+    }
+  } else {
+    for (let i = 0; i < pixelCount; i++) {
+      if (isBackground(i)) mask[i] = 0;
+    }
+  }
+
+  const radius = Math.round(settings.feather);
+  const alpha = radius > 0 ? boxBlur(mask, width, height, radius) : mask;
+  for (let i = 0; i < pixelCount; i++) {
+    // Removed pixels stay fully transparent, so feathering never brings back a halo of background
+    const offset = i * 4 + 3;
+    pixels[offset] = mask[i] === 0 ? 0 : Math.round(pixels[offset] * alpha[i]);
+  }
+};
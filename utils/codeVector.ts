@@ -0,0 +1,79 @@
+import { CodeFormat, QrErrorCorrection, Size, VectorShape } from '../types';
+import { encodeCode128, encodeEan13 } from './barcode';
+import { encodeQrCode } from './qrCode';
+
+// The blank margins scanners need around a code, in modules
+const QR_QUIET_ZONE = 4;
+const BARCODE_QUIET_ZONE = 10;
+// Barcodes are drawn this many times as tall as they are wide, but never shorter than the minimum
+const BARCODE_HEIGHT_RATIO = 0.3;
+const MIN_BARCODE_HEIGHT = 24;
+
+const FILE_NAMES: Record<CodeFormat, string> = { qr: 'qr-code.svg', code128: 'code128.svg', ean13: 'ean13.svg' };
+
+const createShape = (path: string, fill: string): VectorShape => ({
+  path,
+  transform: [1, 0, 0, 1, 0, 0],
+  fill,
+  stroke: null,
+  strokeWidth: 0,
+  lineCap: 'butt',
+  lineJoin: 'miter',
+  dashArray: [],
+  dashOffset: 0,
+  fillOpacity: 1,
+  strokeOpacity: 1,
+});
+
+/** Turns each row of dark modules into one rectangle per run, so neighbouring modules have no seams between them. */
+const getRunsPath = (rows: boolean[][], offset: number, rowHeight: number): string => {
+  const commands: string[] = [];
+  rows.forEach((row, y) => {
+    for (let x = 0; x < row.length; x++) {
+      if (!row[x]) continue;
+      const start = x;
+      while (x + 1 < row.length && row[x + 1]) x++;
+      commands.push(`M ${offset + start} ${offset + y * rowHeight} h ${x + 1 - start} v ${rowHeight} h ${start - x - 1} Z`);
+    }
+  });
+  return commands.join(' ');
+};
+
+/**
+ * Generates a QR code or barcode as vector shapes, so it can be placed like an
+ * SVG and stays crisp when printed. The content space is measured in modules,
+ * with a white background that includes the quiet zone.
+ * @param level The error correction level of a QR code; barcodes ignore it.
+ * @returns The shapes and the SVG they were made from, or null if the text can't be encoded in the format.
+ */
+export const createCodeVector = (format: CodeFormat, text: string, level: QrErrorCorrection): { file: File; shapes: VectorShape[]; contentSize: Size } | null => {
+  let rows: boolean[][];
+  let quietZone: number;
+  let rowHeight = 1;
+  if (format === 'qr') {
+    const modules = encodeQrCode(text, level);
+    if (!modules) return null;
+    rows = modules;
+    quietZone = QR_QUIET_ZONE;
+  } else {
+    const modules = format === 'ean13' ? encodeEan13(text) : encodeCode128(text);
+    if (!modules) return null;
+    // A barcode is a single row stretched to its height
+    rows = [modules];
+    quietZone = BARCODE_QUIET_ZONE;
+    rowHeight = Math.max(MIN_BARCODE_HEIGHT, Math.round((modules.length + 2 * quietZone) * BARCODE_HEIGHT_RATIO));
+  }
+  const contentSize = {
+    width: rows[0].length + 2 * quietZone,
+    height: rows.length * rowHeight + 2 * quietZone,
+  };
+  const background = `M 0 0 H ${contentSize.width} V ${contentSize.height} H 0 Z`;
+  const bars = getRunsPath(rows, quietZone, rowHeight);
+  const shapes = [createShape(background, '#ffffff'), createShape(bars, '#000000')];
+
+  // The SVG keeps a copy of the code that can be saved to the library or opened elsewhere
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${contentSize.width} ${contentSize.height}" shape-rendering="crispEdges">`
+    + `<path fill="#ffffff" d="${background}"/><path fill="#000000" d="${bars}"/></svg>`;
+  const file = new File([svg], FILE_NAMES[format], { type: 'image/svg+xml' });
+  return { file, shapes, contentSize };
+};
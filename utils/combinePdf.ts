@@ -0,0 +1,116 @@
+import { ImagePageOptions, ImagePageSize, OrganizedPage, PdfProtection, Size } from '../types';
+import { StampError, loadDocument, organizePages } from './mergePdf';
+import { convertToEmbeddable, getImageFormat } from './imageFormats';
+import { getActualSize, readImageInfo, readJpegOrientation } from './imageInfo';
+
+const PAPER_SIZES: Record<Exclude<ImagePageSize, 'fit'>, Size> = {
+  a4: { width: 595.28, height: 841.89 },
+  letter: { width: 612, height: 792 },
+};
+const POINTS_PER_MM = 72 / 25.4;
+// Photos turned upright are encoded again, at a quality that keeps receipts legible
+const JPEG_QUALITY = 0.92;
+
+export interface CombineOptions {
+  /**
+   * How the open PDF was opened, if it is encrypted. The combined document is kept
+   * unencrypted while it is edited; it is encrypted again when it is stamped.
+   */
+  protection?: PdfProtection | null;
+  /** Appends the new pages as an incremental update, so existing digital signatures stay valid. */
+  appendChanges?: boolean;
+  /** The pages of the open PDF as organized in the editor, which the combined document is saved with. */
+  pages?: OrganizedPage[];
+  imagePages: ImagePageOptions;
+}
+
+/** Encodes a JPEG again with its pixels turned upright, as its EXIF orientation says. */
+const toUprightJpeg = async (file: File): Promise<File> => {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (!blob) return reject(new Error('Canvas to Blob conversion failed'));
+      resolve(new File([blob], file.name, { type: 'image/jpeg' }));
+    }, 'image/jpeg', JPEG_QUALITY);
+  });
+};
+
+/**
+ * Returns the size of the page an image is placed on, and where the image goes on
+ * it, in PDF points from the bottom-left corner.
+ * @param imageSize The size of the image when printed at its own resolution.
+ */
+const layoutImagePage = (imageSize: Size, options: ImagePageOptions) => {
+  const margin = Math.max(0, options.margin) * POINTS_PER_MM;
+  if (options.pageSize === 'fit') {
+    return {
+      pageSize: { width: imageSize.width + margin * 2, height: imageSize.height + margin * 2 },
+      x: margin,
+      y: margin,
+      ...imageSize,
+    };
+  }
+  const paper = PAPER_SIZES[options.pageSize];
+  const isLandscape = options.autoOrientation && imageSize.width > imageSize.height;
+  const pageSize = isLandscape ? { width: paper.height, height: paper.width } : paper;
+  // Scaled up or down to fill the space inside the margins, keeping its aspect ratio
+  const scale = Math.min(
+    Math.max(1, pageSize.width - margin * 2) / imageSize.width,
+    Math.max(1, pageSize.height - margin * 2) / imageSize.height,
+  );
+  const width = imageSize.width * scale;
+  const height = imageSize.height * scale;
+  return { pageSize, x: (pageSize.width - width) / 2, y: (pageSize.height - height) / 2, width, height };
+};
+
+/** Adds an image to the end of a document on a page of its own. */
+const appendImagePage = async (pdfDoc: any, file: File, options: ImagePageOptions) => {
+  const format = getImageFormat(file);
+  if (!format) throw new StampError('errorUnsupportedImageType');
+  let embeddableFile = await convertToEmbeddable(file, format);
+  if (format === 'jpeg' && await readJpegOrientation(file) !== 1) {
+    embeddableFile = await toUprightJpeg(file);
+  }
+  // The resolution comes from the upload, since converting drops the metadata
+  const imageInfo = await readImageInfo(file, embeddableFile);
+  const bytes = await embeddableFile.arrayBuffer();
+  const image = embeddableFile.type === 'image/png' ? await pdfDoc.embedPng(bytes) : await pdfDoc.embedJpg(bytes);
+  const { pageSize, ...rect } = layoutImagePage(getActualSize(imageInfo), options);
+  pdfDoc.addPage([pageSize.width, pageSize.height]).drawImage(image, rect);
+};
+
+/**
+ * Appends PDFs and images to a document, in the order given. The pages of each PDF
+ * are copied over; each image goes on a new page of its own.
+ * @param pdfBytes The open PDF, which the new pages are added to.
+ * @param files PDFs and images to append.
+ * @returns The bytes of the combined document.
+ */
+export const combineDocuments = async (pdfBytes: ArrayBuffer, files: File[], options: CombineOptions): Promise<Uint8Array> => {
+  const { protection, appendChanges = false, pages, imagePages } = options;
+  if (appendChanges && protection) {
+    throw new StampError('errorAppendEncrypted');
+  }
+  const pdfDoc = await loadDocument(pdfBytes, protection, appendChanges);
+  if (pages) organizePages(pdfDoc, pages);
+
+  for (const file of files) {
+    if (file.type === 'application/pdf') {
+      // Files other than the open one have no password to use, so encrypted ones are refused
+      const source = await loadDocument(await file.arrayBuffer());
+      const copiedPages = await pdfDoc.copyPages(source, source.getPageIndices());
+      copiedPages.forEach((page: any) => pdfDoc.addPage(page));
+    } else {
+      await appendImagePage(pdfDoc, file, imagePages);
+    }
+  }
+
+  return appendChanges ? pdfDoc.commit() : pdfDoc.save();
+};
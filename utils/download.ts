@@ -0,0 +1,14 @@
+/**
+ * Triggers a browser download of a Blob.
+ * @param blob The content to download.
+ * @param fileName The suggested name of the downloaded file.
+ */
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(link.href);
+};
@@ -0,0 +1,85 @@
+import { FontFamily, Size } from '../types';
+
+/** Line height of text stamps, as a multiple of the font size. Used by both the preview and the merge. */
+export const LINE_HEIGHT = 1.2;
+
+// The Google Fonts TTFs as published on npm, pinned to a version so the fonts never change without notice
+const FONTS_VERSION = '0.4.1';
+const getFontUrl = (fontPackage: string, file: string) =>
+  `https://cdn.jsdelivr.net/npm/@expo-google-fonts/${fontPackage}@${FONTS_VERSION}/400Regular/${file}`;
+
+/**
+ * The fonts available for text stamps. All of them cover both Hebrew and Latin,
+ * so mixed text never needs a fallback font.
+ */
+export const TEXT_FONTS: Record<FontFamily, { label: string; url: string; cssFamily: string }> = {
+  'alef': {
+    label: 'Alef',
+    url: getFontUrl('alef', 'Alef_400Regular.ttf'),
+    cssFamily: 'PdfStamp Alef',
+  },
+  'david-libre': {
+    label: 'David Libre',
+    url: getFontUrl('david-libre', 'DavidLibre_400Regular.ttf'),
+    cssFamily: 'PdfStamp David Libre',
+  },
+  'secular-one': {
+    label: 'Secular One',
+    url: getFontUrl('secular-one', 'SecularOne_400Regular.ttf'),
+    cssFamily: 'PdfStamp Secular One',
+  },
+};
+
+const fontBytesCache = new Map<FontFamily, Promise<ArrayBuffer>>();
+const loadedFontFaces = new Set<FontFamily>();
+
+/**
+ * Downloads the TrueType file of a font once and caches it for the session.
+ * The same bytes are used for the on-screen preview and for embedding in the PDF.
+ */
+export const loadFontBytes = (family: FontFamily): Promise<ArrayBuffer> => {
+  let bytes = fontBytesCache.get(family);
+  if (!bytes) {
+    bytes = fetch(TEXT_FONTS[family].url).then(response => {
+      if (!response.ok) throw new Error(`Failed to load font ${TEXT_FONTS[family].label}`);
+      return response.arrayBuffer();
+    });
+    bytes.catch(() => fontBytesCache.delete(family)); // Allow a retry after a network error
+    fontBytesCache.set(family, bytes);
+  }
+  return bytes;
+};
+
+/** Registers a font with the document so the preview renders with exactly the font that gets embedded. */
+export const ensureFontLoaded = async (family: FontFamily): Promise<void> => {
+  if (loadedFontFaces.has(family)) return;
+  const fontFace = new FontFace(TEXT_FONTS[family].cssFamily, await loadFontBytes(family));
+  await fontFace.load();
+  document.fonts.add(fontFace);
+  loadedFontFaces.add(family);
+};
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+/**
+ * Measures a block of text, one line per newline, in points.
+ * The font should be loaded with {@link ensureFontLoaded} first, or a fallback font is measured.
+ * @param text The text to measure.
+ * @param family The font of the text.
+ * @param fontSize The font size in points.
+ */
+export const measureTextBlock = (text: string, family: FontFamily, fontSize: number): Size => {
+  if (!measureContext) {
+    measureContext = document.createElement('canvas').getContext('2d');
+  }
+  const lines = text.split('\n');
+  let width = 0;
+  if (measureContext) {
+    measureContext.font = `${fontSize}px "${TEXT_FONTS[family].cssFamily}"`;
+    width = Math.max(...lines.map(line => measureContext!.measureText(line).width));
+  }
+  return {
+    width: Math.max(width, fontSize / 2),
+    height: lines.length * fontSize * LINE_HEIGHT,
+  };
+};
@@ -0,0 +1,116 @@
+// UTIF is CommonJS only, so it is loaded through esm.sh, which also bundles its inflate dependency
+const utifPromise = import( /* @vite-ignore */ 'https://esm.sh/utif2@4.1.0');
+
+export type ImageFormat = 'png' | 'jpeg' | 'webp' | 'gif' | 'bmp' | 'tiff' | 'svg';
+
+const IMAGE_FORMATS: Record<ImageFormat, { mimeTypes: string[]; extensions: string[] }> = {
+  png: { mimeTypes: ['image/png'], extensions: ['.png'] },
+  jpeg: { mimeTypes: ['image/jpeg'], extensions: ['.jpg', '.jpeg'] },
+  webp: { mimeTypes: ['image/webp'], extensions: ['.webp'] },
+  gif: { mimeTypes: ['image/gif'], extensions: ['.gif'] },
+  bmp: { mimeTypes: ['image/bmp', 'image/x-ms-bmp'], extensions: ['.bmp'] },
+  tiff: { mimeTypes: ['image/tiff'], extensions: ['.tif', '.tiff'] },
+  svg: { mimeTypes: ['image/svg+xml'], extensions: ['.svg'] },
+};
+
+// Large enough for a sharp print of an SVG that can't be kept as vectors
+const SVG_RASTER_MAX_SIDE = 2048;
+
+/** The accept map for the image dropzone. */
+export const IMAGE_ACCEPT: { [mimeType: string]: string[] } = Object.fromEntries(
+  Object.values(IMAGE_FORMATS).flatMap(({ mimeTypes, extensions }) => mimeTypes.map(type => [type, extensions])),
+);
+
+/**
+ * Detects the format of an image upload from its MIME type, falling back to the
+ * extension, since some systems report no type for TIFF or BMP files.
+ * @returns The format, or null if the file is not a supported image.
+ */
+export const getImageFormat = (file: File): ImageFormat | null => {
+  const extension = file.name.includes('.') ? file.name.substring(file.name.lastIndexOf('.')).toLowerCase() : '';
+  const entries = Object.entries(IMAGE_FORMATS) as [ImageFormat, typeof IMAGE_FORMATS[ImageFormat]][];
+  const byType = entries.find(([, { mimeTypes }]) => mimeTypes.includes(file.type));
+  if (byType) return byType[0];
+  if (file.type && file.type !== 'application/octet-stream') return null;
+  return entries.find(([, { extensions }]) => extensions.includes(extension))?.[0] ?? null;
+};
+
+const canvasToPng = (canvas: HTMLCanvasElement, name: string): Promise<File> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (!blob) return reject(new Error('Canvas to Blob conversion failed'));
+      const baseName = name.includes('.') ? name.substring(0, name.lastIndexOf('.')) : name;
+      resolve(new File([blob], `${baseName}.png`, { type: 'image/png' }));
+    }, 'image/png');
+  });
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+  return { canvas, ctx };
+};
+
+/** Decodes the first page of a TIFF, which browsers other than Safari can't display. */
+const decodeTiff = async (file: File): Promise<HTMLCanvasElement> => {
+  const { default: UTIF } = await utifPromise;
+  const buffer = await file.arrayBuffer();
+  const [ifd] = UTIF.decode(buffer);
+  if (!ifd) throw new Error('The TIFF file contains no image');
+  UTIF.decodeImage(buffer, ifd);
+  const rgba: Uint8Array = UTIF.toRGBA8(ifd);
+  const { canvas, ctx } = createCanvas(ifd.width, ifd.height);
+  ctx.putImageData(new ImageData(new Uint8ClampedArray(rgba.buffer, rgba.byteOffset, rgba.byteLength), ifd.width, ifd.height), 0, 0);
+  return canvas;
+};
+
+/**
+ * Renders an SVG through an image element, which never runs its scripts or loads
+ * external resources. Used for SVGs that use features the vector import can't keep.
+ */
+const rasterizeSvg = (file: File): Promise<HTMLCanvasElement> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      const scale = SVG_RASTER_MAX_SIDE / Math.max(img.naturalWidth || 300, img.naturalHeight || 150);
+      const { canvas, ctx } = createCanvas(
+        Math.round((img.naturalWidth || 300) * scale),
+        Math.round((img.naturalHeight || 150) * scale),
+      );
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas);
+    };
+    img.onerror = (e) => {
+      URL.revokeObjectURL(url);
+      reject(e);
+    };
+    img.src = url;
+  });
+};
+
+/**
+ * Converts an image the PDF can't embed directly into a PNG. GIFs keep their first
+ * frame; transparency is preserved for every format.
+ * @param file The upload to convert. PNG and JPEG files are returned unchanged.
+ */
+export const convertToEmbeddable = async (file: File, format: ImageFormat): Promise<File> => {
+  if (format === 'png' || format === 'jpeg') return file;
+
+  let canvas: HTMLCanvasElement;
+  if (format === 'tiff') {
+    canvas = await decodeTiff(file);
+  } else if (format === 'svg') {
+    canvas = await rasterizeSvg(file);
+  } else {
+    const bitmap = await createImageBitmap(file);
+    ({ canvas } = createCanvas(bitmap.width, bitmap.height));
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0);
+    bitmap.close();
+  }
+  return canvasToPng(canvas, file.name);
+};
@@ -0,0 +1,186 @@
+import { ImageInfo, Size } from '../types';
+import { getImageFormat } from './imageFormats';
+
+/** The resolution assumed when an image carries no DPI metadata, so that one pixel maps to one point. */
+export const DEFAULT_DPI = 72;
+
+const INCH_PER_METER = 0.0254;
+const CM_PER_INCH = 2.54;
+
+/** Reads the pHYs chunk of a PNG file, if present. */
+const readPngDpi = (view: DataView): { x: number; y: number } | null => {
+  let offset = 8; // Skip the PNG signature
+  while (offset + 8 <= view.byteLength) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(
+      view.getUint8(offset + 4), view.getUint8(offset + 5), view.getUint8(offset + 6), view.getUint8(offset + 7),
+    );
+    if (type === 'pHYs' && length >= 9) {
+      const unit = view.getUint8(offset + 16);
+      if (unit !== 1) return null; // Only the aspect ratio is known
+      return {
+        x: view.getUint32(offset + 8) * INCH_PER_METER,
+        y: view.getUint32(offset + 12) * INCH_PER_METER,
+      };
+    }
+    if (type === 'IDAT' || type === 'IEND') return null; // pHYs must come before the image data
+    offset += 12 + length;
+  }
+  return null;
+};
+
+/** Reads XResolution, YResolution and ResolutionUnit from the first IFD of an EXIF block. */
+const readExifDpi = (view: DataView, tiffStart: number): { x: number; y: number } | null => {
+  const littleEndian = view.getUint16(tiffStart) === 0x4949;
+  const ifdOffset = tiffStart + view.getUint32(tiffStart + 4, littleEndian);
+  const entryCount = view.getUint16(ifdOffset, littleEndian);
+  let xResolution: number | null = null;
+  let yResolution: number | null = null;
+  let unit = 2; // Inches, the EXIF default
+
+  for (let i = 0; i < entryCount; i++) {
+    const entry = ifdOffset + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    const tag = view.getUint16(entry, littleEndian);
+    if (tag === 0x011a || tag === 0x011b) {
+      const valueOffset = tiffStart + view.getUint32(entry + 8, littleEndian);
+      const denominator = view.getUint32(valueOffset + 4, littleEndian);
+      const value = denominator ? view.getUint32(valueOffset, littleEndian) / denominator : 0;
+      if (tag === 0x011a) xResolution = value;
+      else yResolution = value;
+    } else if (tag === 0x0128) {
+      unit = view.getUint16(entry + 8, littleEndian);
+    }
+  }
+
+  if (!xResolution || !yResolution || (unit !== 2 && unit !== 3)) return null;
+  const factor = unit === 3 ? CM_PER_INCH : 1;
+  return { x: xResolution * factor, y: yResolution * factor };
+};
+
+/** Reads the density from the JFIF (APP0) or EXIF (APP1) segment of a JPEG file. */
+const readJpegDpi = (view: DataView): { x: number; y: number } | null => {
+  let offset = 2; // Skip the SOI marker
+  let exifDpi: { x: number; y: number } | null = null;
+  while (offset + 4 <= view.byteLength) {
+    if (view.getUint8(offset) !== 0xff) return exifDpi;
+    const marker = view.getUint8(offset + 1);
+    if (marker === 0xda || marker === 0xd9) break; // Start of scan or end of image
+    const length = view.getUint16(offset + 2);
+    const segment = offset + 4;
+
+    if (marker === 0xe0 && view.getUint32(segment) === 0x4a464946) { // "JFIF"
+      const units = view.getUint8(segment + 7);
+      const x = view.getUint16(segment + 8);
+      const y = view.getUint16(segment + 10);
+      if (units === 1) return { x, y };
+      if (units === 2) return { x: x * CM_PER_INCH, y: y * CM_PER_INCH };
+    } else if (marker === 0xe1 && view.getUint32(segment) === 0x45786966) { // "Exif"
+      try {
+        exifDpi = readExifDpi(view, segment + 6);
+      } catch {
+        exifDpi = null; // Malformed EXIF data is not worth failing over
+      }
+    }
+    offset += 2 + length;
+  }
+  return exifDpi;
+};
+
+/** Reads the Orientation tag from the first IFD of an EXIF block. */
+const readExifOrientation = (view: DataView, tiffStart: number): number => {
+  const littleEndian = view.getUint16(tiffStart) === 0x4949;
+  const ifdOffset = tiffStart + view.getUint32(tiffStart + 4, littleEndian);
+  const entryCount = view.getUint16(ifdOffset, littleEndian);
+  for (let i = 0; i < entryCount; i++) {
+    const entry = ifdOffset + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    if (view.getUint16(entry, littleEndian) === 0x0112) return view.getUint16(entry + 8, littleEndian);
+  }
+  return 1;
+};
+
+/**
+ * Reads how a JPEG is meant to be turned from its EXIF Orientation tag, as photos
+ * from phones often are. Browsers show the image turned, but a PDF embeds the
+ * pixels as they are stored.
+ * @returns The orientation from 1 (upright) to 8, or 1 if the file doesn't set one.
+ */
+export const readJpegOrientation = async (file: File): Promise<number> => {
+  const view = new DataView(await file.arrayBuffer());
+  try {
+    let offset = 2; // Skip the SOI marker
+    while (offset + 4 <= view.byteLength && view.getUint8(offset) === 0xff) {
+      const marker = view.getUint8(offset + 1);
+      if (marker === 0xda || marker === 0xd9) break; // Start of scan or end of image
+      const segment = offset + 4;
+      if (marker === 0xe1 && view.getUint32(segment) === 0x45786966) { // "Exif"
+        return readExifOrientation(view, segment + 6);
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+  } catch {
+    // Malformed EXIF data is treated as upright
+  }
+  return 1;
+};
+
+const loadNaturalSize = (file: File): Promise<Size> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve({ width: img.naturalWidth, height: img.naturalHeight });
+    };
+    img.onerror = (e) => {
+      URL.revokeObjectURL(url);
+      reject(e);
+    };
+    img.src = url;
+  });
+};
+
+/**
+ * Reads the pixel dimensions of an image and the resolution stored in its metadata.
+ * Must be called on the original upload, since re-encoding through a canvas drops the metadata.
+ * @param file The image file to inspect.
+ * @param decoded A copy of the image the browser can display, for formats such as TIFF
+ * that have to be converted first. Defaults to `file`.
+ * @returns The pixel size and DPI, falling back to {@link DEFAULT_DPI}.
+ */
+export const readImageInfo = async (file: File, decoded: File = file): Promise<ImageInfo> => {
+  const naturalSize = await loadNaturalSize(decoded);
+  const view = new DataView(await file.arrayBuffer());
+  let dpi: { x: number; y: number } | null = null;
+  try {
+    if (file.type === 'image/png') dpi = readPngDpi(view);
+    else if (file.type === 'image/jpeg') dpi = readJpegDpi(view);
+    else if (getImageFormat(file) === 'tiff') dpi = readExifDpi(view, 0); // A TIFF file is laid out like an EXIF block
+  } catch {
+    dpi = null; // Truncated files simply have no usable metadata
+  }
+  return {
+    naturalSize,
+    dpi: dpi && dpi.x > 0 && dpi.y > 0 ? dpi : { x: DEFAULT_DPI, y: DEFAULT_DPI },
+  };
+};
+
+/**
+ * Returns the size of an image in points when printed at its native resolution.
+ * @param info The pixel size and resolution of the image.
+ */
+export const getActualSize = (info: ImageInfo): Size => ({
+  width: info.naturalSize.width * 72 / info.dpi.x,
+  height: info.naturalSize.height * 72 / info.dpi.y,
+});
+
+/**
+ * Scales a size uniformly so its longer side equals `maxSide`, keeping its aspect ratio.
+ * @param size The size to scale.
+ * @param maxSide The length of the longer side after scaling.
+ */
+export const fitToSide = (size: Size, maxSide: number): Size => {
+  const scale = maxSide / Math.max(size.width, size.height);
+  return { width: size.width * scale, height: size.height * scale };
+};
@@ -0,0 +1,47 @@
+import { Layer, LayerChanges, Point, Size, TextLayer } from '../types';
+import { measureTextBlock } from './fonts';
+
+/** Resizes a text layer's box to fit its text, keeping the top-left corner in place. */
+export const fitTextLayer = (layer: TextLayer): TextLayer => ({
+  ...layer,
+  size: measureTextBlock(layer.text, layer.fontFamily, layer.fontSize),
+});
+
+/**
+ * Applies changes to a layer. Text layers are re-measured, so changing the text
+ * or the font grows or shrinks the box around it.
+ */
+export const applyLayerChanges = (layer: Layer, changes: LayerChanges): Layer => {
+  const next = { ...layer, ...changes } as Layer;
+  return next.kind === 'text' ? fitTextLayer(next) : next;
+};
+
+/**
+ * Replaces one layer in a list. The list itself is returned when the update
+ * leaves the layer unchanged, so callers can tell that nothing happened.
+ * @param update Returns the new layer, or the same object to leave it as is.
+ */
+export const replaceLayer = (layers: Layer[], id: string, update: (layer: Layer) => Layer): Layer[] => {
+  const index = layers.findIndex(layer => layer.id === id);
+  if (index < 0) return layers;
+  const next = update(layers[index]);
+  if (next === layers[index]) return layers;
+  return [...layers.slice(0, index), next, ...layers.slice(index + 1)];
+};
+
+/**
+ * Moves and resizes a layer. Resizing a text layer scales its font size, since
+ * the box of a text layer always fits its text.
+ */
+export const resizeLayer = (layer: Layer, position: Point, size: Size): Layer => {
+  // Ending an interaction without moving, such as blurring the box, is not a change
+  if (position.x === layer.position.x && position.y === layer.position.y
+    && size.width === layer.size.width && size.height === layer.size.height) {
+    return layer;
+  }
+  if (layer.kind !== 'text') {
+    return { ...layer, position, size };
+  }
+  const scale = size.height / layer.size.height;
+  return fitTextLayer({ ...layer, position, fontSize: layer.fontSize * scale });
+};
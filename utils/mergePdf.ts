@@ -0,0 +1,629 @@
+import { TranslationKey } from '../contexts/SettingsContext';
+import { DrawingLayer, FontFamily, ImageLayer, Layer, Matrix, OrganizedPage, OutputEncryption, PageGeometry, PageNumbering, PdfProtection, Point, Size, StampOutput, TextLayer, VectorLayer } from '../types';
+import { resolvePageSelection } from './pageRange';
+import { boxPointToPdf, mapPlacementToPage, toPdfRect } from './placement';
+import { applyMatrix, createPageGeometry, getDisplaySize, getUprightToUserMatrix, multiplyMatrices } from './pageGeometry';
+import { LINE_HEIGHT, loadFontBytes } from './fonts';
+import { toVisualOrder } from './bidi';
+import { strokesToPathsByColor } from './signature';
+import { getEncryptionOptions } from './pdfSecurity';
+import { isOriginalOrder } from './pageOrganization';
+import { getTilePositions } from './tiling';
+import { NUMBERING_FONT, getNumberPosition, getPageNumberLabels } from './pageNumbering';
+
+// pdf-lib and its fontkit companion are loaded from CDN and available as globals
+declare const PDFLib: any;
+declare const fontkit: any;
+
+// Glyphs can reach slightly past the box of a text layer, so stamp annotations leave room around it
+const APPEARANCE_MARGIN = 4;
+// The Print flag, so stamp annotations are printed like the rest of the page
+const ANNOTATION_PRINT_FLAG = 4;
+// The space reserved for the signature, which holds the signer's certificate chain too
+const SIGNATURE_CONTENTS_BYTES = 16384;
+// Written in place of the ByteRange numbers, which are only known once the file is saved
+const BYTE_RANGE_PLACEHOLDER = '**********';
+// The page attributes a page can take from its parents in the page tree
+const INHERITABLE_PAGE_ATTRIBUTES = ['Resources', 'MediaBox', 'CropBox', 'Rotate'];
+
+/**
+ * An error raised while stamping a PDF. It carries a translation key instead of
+ * a message so the UI can show it in the current language.
+ */
+export class StampError extends Error {
+  constructor(public readonly messageKey: TranslationKey) {
+    super(messageKey);
+    this.name = 'StampError';
+  }
+}
+
+/** Reads the visible box and rotation of a pdf-lib page. */
+const getPageGeometry = (page: any): PageGeometry => {
+  const toCorners = ({ x, y, width, height }: { x: number; y: number; width: number; height: number }) => [x, y, x + width, y + height];
+  return createPageGeometry(toCorners(page.getMediaBox()), toCorners(page.getCropBox()), page.getRotation().angle);
+};
+
+/**
+ * Loads a PDF into pdf-lib, decrypting it with the password it was opened with.
+ * @param protection How the PDF was opened, if it is encrypted.
+ * @param forIncrementalUpdate Keeps the original bytes, so changes can be appended to them.
+ */
+export const loadDocument = async (pdfBytes: ArrayBuffer, protection?: PdfProtection | null, forIncrementalUpdate = false) => {
+  try {
+    return await PDFLib.PDFDocument.load(pdfBytes, {
+      forIncrementalUpdate,
+      ...(protection && { password: protection.ownerPassword ?? protection.userPassword }),
+    });
+  } catch (err) {
+    // Encrypted files that weren't opened in the editor, such as the rest of a batch, have no password to use
+    if (err instanceof PDFLib.EncryptedPDFError || (err as Error)?.message === 'NEEDS PASSWORD') {
+      throw new StampError('errorPdfEncrypted');
+    }
+    throw err;
+  }
+};
+
+/**
+ * Rearranges the pages of a document as they were organized in the editor: pages
+ * are put in their new order and turned, and blank pages are inserted. Removed
+ * pages are deleted with their content, so it doesn't stay behind in the file.
+ */
+export const organizePages = (pdfDoc: any, organizedPages: OrganizedPage[]) => {
+  const { PDFArray, PDFName, PDFRef, degrees } = PDFLib;
+  const originals = pdfDoc.getPages();
+  if (isOriginalOrder(organizedPages, originals.length)) return;
+
+  // Pages are taken out of the tree and put back, which loses what they inherited from the nodes above them
+  originals.forEach((page: any) => {
+    INHERITABLE_PAGE_ATTRIBUTES.forEach(name => {
+      const key = PDFName.of(name);
+      const value = page.node.getInheritableAttribute(key);
+      if (value && !page.node.get(key)) page.node.set(key, value);
+    });
+  });
+  // Removing a page deletes its object, but not its content, which other pages may share
+  const getContentRefs = (page: any) => {
+    const contents = page.node.get(PDFName.of('Contents'));
+    const resolved = contents instanceof PDFRef ? pdfDoc.context.lookup(contents) : contents;
+    return resolved instanceof PDFArray ? [contents, ...resolved.asArray()] : [contents];
+  };
+  const keptPages = new Set(organizedPages.flatMap(entry => entry.kind === 'original' ? [originals[entry.sourceIndex]] : []));
+  const keptContents = new Set([...keptPages].flatMap(getContentRefs));
+  const removedContents = originals
+    .filter((page: any) => !keptPages.has(page))
+    .flatMap(getContentRefs)
+    .filter((ref: any) => ref instanceof PDFRef && !keptContents.has(ref));
+
+  for (let index = originals.length - 1; index >= 0; index--) {
+    pdfDoc.removePage(index);
+  }
+  removedContents.forEach((ref: any) => pdfDoc.context.delete(ref));
+  organizedPages.forEach((entry, index) => {
+    if (entry.kind === 'blank') {
+      const page = pdfDoc.insertPage(index, [entry.size.width, entry.size.height]);
+      page.setRotation(degrees(entry.rotation));
+      return;
+    }
+    const page = originals[entry.sourceIndex];
+    // Removing a page deletes its object as well, so a page that stays is put back first
+    pdfDoc.context.assign(page.ref, page.node);
+    pdfDoc.insertPage(index, page);
+    page.setRotation(degrees((getPageGeometry(page).rotation + entry.rotation) % 360));
+  });
+};
+
+/**
+ * Reads the size of every page of a PDF as it is displayed, in points.
+ * @param pdfBytes The PDF file contents.
+ * @param protection How the PDF was opened, if it is encrypted.
+ * @param organizedPages The pages as organized in the editor, if they were.
+ */
+export const getPageSizes = async (pdfBytes: ArrayBuffer, protection?: PdfProtection | null, organizedPages?: OrganizedPage[]): Promise<Size[]> => {
+  const pdfDoc = await loadDocument(pdfBytes, protection);
+  if (organizedPages) organizePages(pdfDoc, organizedPages);
+  return pdfDoc.getPages().map((page: any) => getDisplaySize(getPageGeometry(page)));
+};
+
+/**
+ * Lists the signature fields of a PDF that have been signed. Rewriting the file
+ * invalidates their signatures; appending the changes keeps them valid.
+ * @param pdfBytes The PDF file contents.
+ * @param protection How the PDF was opened, if it is encrypted.
+ */
+export const getSignedFieldNames = async (pdfBytes: ArrayBuffer, protection?: PdfProtection | null): Promise<string[]> => {
+  const { PDFName, PDFSignature } = PDFLib;
+  const pdfDoc = await loadDocument(pdfBytes, protection);
+  return pdfDoc.getForm().getFields()
+    .filter((field: any) => field instanceof PDFSignature && field.acroField.dict.has(PDFName.of('V')))
+    .map((field: any) => field.getName());
+};
+
+/** Converts a hex color such as "#1c1c1e" into a pdf-lib color. */
+const hexToRgb = (hex: string) => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return PDFLib.rgb(((value >> 16) & 0xff) / 255, ((value >> 8) & 0xff) / 255, (value & 0xff) / 255);
+};
+
+/**
+ * Writes a text layer as vector text, one drawText call per line, mirroring the
+ * preview's layout: lines are LINE_HEIGHT apart, the glyphs are vertically
+ * centered in each line, and every line is aligned within the box.
+ * @param lines The lines of the layer, already in visual order.
+ * @param layer The text layer, or just the style of text that isn't a layer, such as page numbers.
+ */
+const drawTextBlock = (
+  page: any,
+  pageHeight: number,
+  font: any,
+  lines: string[],
+  layer: Pick<TextLayer, 'fontSize' | 'size' | 'color' | 'align' | 'rotation'>,
+  position: Point,
+  size: Size,
+  drawOptions: Record<string, unknown>,
+) => {
+  // The box may have been scaled to fit a page of a different size
+  const fontSize = layer.fontSize * (size.height / layer.size.height);
+  const lineHeight = fontSize * LINE_HEIGHT;
+  const ascent = font.heightAtSize(fontSize, { descender: false });
+  const baseline = (lineHeight - font.heightAtSize(fontSize)) / 2 + ascent;
+  const color = hexToRgb(layer.color);
+
+  lines.forEach((line, index) => {
+    if (line.length === 0) return;
+    const lineWidth = font.widthOfTextAtSize(line, fontSize);
+    let offsetX = 0;
+    if (layer.align === 'center') offsetX = (size.width - lineWidth) / 2;
+    else if (layer.align === 'right') offsetX = size.width - lineWidth;
+
+    const origin = boxPointToPdf(position, size, layer.rotation, pageHeight, {
+      x: offsetX,
+      y: index * lineHeight + baseline,
+    });
+    page.drawText(line, {
+      ...drawOptions,
+      x: origin.x,
+      y: origin.y,
+      size: fontSize,
+      font,
+      color,
+      rotate: PDFLib.degrees(-layer.rotation),
+    });
+  });
+};
+
+/**
+ * Writes a drawing layer as filled vector paths, one per pen color. The strokes
+ * are stretched to the box before they are outlined, since drawSvgPath only
+ * supports a uniform scale.
+ */
+const drawStrokes = (
+  page: any,
+  pageHeight: number,
+  layer: DrawingLayer,
+  position: Point,
+  size: Size,
+  drawOptions: Record<string, unknown>,
+) => {
+  // SVG coordinates run downwards from the path origin, which is the top-left corner of the box
+  const origin = boxPointToPdf(position, size, layer.rotation, pageHeight, { x: 0, y: 0 });
+  const scaleX = size.width / layer.contentSize.width;
+  const scaleY = size.height / layer.contentSize.height;
+  for (const { color, path } of strokesToPathsByColor(layer.strokes, scaleX, scaleY)) {
+    page.drawSvgPath(path, {
+      ...drawOptions,
+      x: origin.x,
+      y: origin.y,
+      color: hexToRgb(color),
+      rotate: PDFLib.degrees(-layer.rotation),
+    });
+  }
+};
+
+/**
+ * Writes a vector layer as one drawSvgPath call per shape. Each shape has its own
+ * transform, and the box may stretch the drawing unevenly, so the full transform is
+ * set on the graphics state instead of being passed to drawSvgPath, which only
+ * supports a uniform scale.
+ */
+const drawVectorShapes = (
+  page: any,
+  pageHeight: number,
+  layer: VectorLayer,
+  position: Point,
+  size: Size,
+  drawOptions: { opacity: number; blendMode: unknown },
+) => {
+  const { pushGraphicsState, popGraphicsState, concatTransformationMatrix, setLineJoin, LineCapStyle, LineJoinStyle } = PDFLib;
+  const origin = boxPointToPdf(position, size, layer.rotation, pageHeight, { x: 0, y: 0 });
+  const radians = -layer.rotation * Math.PI / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const scaleX = size.width / layer.contentSize.width;
+  const scaleY = size.height / layer.contentSize.height;
+  // Maps the content space, where y runs downwards from the top-left corner, onto the rotated box on the page
+  const boxTransform: Matrix = [cos * scaleX, sin * scaleX, sin * scaleY, -cos * scaleY, origin.x, origin.y];
+  // drawSvgPath flips the y axis itself, so the flip is undone first
+  const flipY: Matrix = [1, 0, 0, -1, 0, 0];
+  const lineJoins = { miter: LineJoinStyle.Miter, round: LineJoinStyle.Round, bevel: LineJoinStyle.Bevel };
+  const lineCaps = { butt: LineCapStyle.Butt, round: LineCapStyle.Round, square: LineCapStyle.Projecting };
+
+  for (const shape of layer.shapes) {
+    const matrix = multiplyMatrices(multiplyMatrices(boxTransform, shape.transform), flipY);
+    page.pushOperators(pushGraphicsState(), concatTransformationMatrix(...matrix), setLineJoin(lineJoins[shape.lineJoin]));
+    page.drawSvgPath(shape.path, {
+      blendMode: drawOptions.blendMode,
+      x: 0,
+      y: 0,
+      ...(shape.fill && {
+        color: hexToRgb(shape.fill),
+        opacity: drawOptions.opacity * shape.fillOpacity,
+      }),
+      ...(shape.stroke && {
+        borderColor: hexToRgb(shape.stroke),
+        borderWidth: shape.strokeWidth,
+        borderOpacity: drawOptions.opacity * shape.strokeOpacity,
+        borderLineCap: lineCaps[shape.lineCap],
+        borderDashArray: shape.dashArray,
+        borderDashPhase: shape.dashOffset,
+      }),
+    });
+    page.pushOperators(popGraphicsState());
+  }
+};
+
+/** Returns how far a layer drawn at a size reaches past the edges of its box, such as the strokes of a vector layer. */
+const getOverhang = (layer: Layer, size: Size) => {
+  const strokeOverhang = layer.kind === 'vector'
+    ? Math.max(0, ...layer.shapes.map(shape => shape.stroke ? shape.strokeWidth : 0))
+      * Math.max(size.width / layer.contentSize.width, size.height / layer.contentSize.height) / 2
+    : 0;
+  return APPEARANCE_MARGIN + strokeOverhang;
+};
+
+/**
+ * Returns the rectangle a layer covers in PDF user space, as [left, bottom, right, top].
+ * It includes the rotated box and anything drawn past its edges.
+ */
+const getLayerBounds = (layer: Layer, position: Point, size: Size, pageHeight: number, uprightToUser: Matrix) => {
+  const margin = getOverhang(layer, size);
+  const corners = [
+    { x: -margin, y: -margin },
+    { x: size.width + margin, y: -margin },
+    { x: -margin, y: size.height + margin },
+    { x: size.width + margin, y: size.height + margin },
+  ].map(corner => applyMatrix(uprightToUser, boxPointToPdf(position, size, layer.rotation, pageHeight, corner)));
+  const xs = corners.map(corner => corner.x);
+  const ys = corners.map(corner => corner.y);
+  return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+};
+
+/**
+ * Turns what was drawn on a scratch page into a form XObject, such as the
+ * appearance stream of an annotation, clipped to `bounds`, and removes the
+ * scratch page from the document.
+ * @param bounds The area to keep in the scratch page's user space, as [left, bottom, right, top].
+ * @returns The embedded page, for drawPage; its `ref` is the form XObject.
+ */
+const embedScratchPage = async (pdfDoc: any, scratchPage: any, bounds: number[]) => {
+  const [left, bottom, right, top] = bounds;
+  // Without a transform of its own, the form uses the same coordinates as the scratch page
+  const embeddedPage = await pdfDoc.embedPage(scratchPage, { left, bottom, right, top }, [1, 0, 0, 1, 0, 0]);
+  await embeddedPage.embed();
+  // Only the form refers to the scratch page's content and resources now
+  scratchPage.node.Contents()?.asArray().forEach((ref: any) => pdfDoc.context.delete(ref));
+  pdfDoc.context.delete(scratchPage.ref);
+  return embeddedPage;
+};
+
+/**
+ * Draws a layer once, upright and at the size it was placed at, and embeds the
+ * drawing as a form XObject, so all copies of a tiled layer refer to one object.
+ * @param draw Draws the layer upright onto a page, with its box at a position and size.
+ * @returns The embedded drawing, and the margin it leaves around the box.
+ */
+const embedTile = async (pdfDoc: any, layer: Layer, draw: (page: any, pageHeight: number, position: Point, size: Size) => void) => {
+  const margin = getOverhang(layer, layer.size);
+  const width = layer.size.width + margin * 2;
+  const height = layer.size.height + margin * 2;
+  const scratchPage = PDFLib.PDFPage.create(pdfDoc);
+  scratchPage.setSize(width, height);
+  draw(scratchPage, height, { x: margin, y: margin }, layer.size);
+  return { embeddedPage: await embedScratchPage(pdfDoc, scratchPage, [0, 0, width, height]), margin };
+};
+
+/** Adds a Stamp annotation to a page, showing what was drawn on a scratch page. */
+const addStampAnnotation = async (
+  pdfDoc: any,
+  page: any,
+  scratchPage: any,
+  bounds: number[],
+  layer: Layer,
+  output: { author: string; subject: string },
+) => {
+  const { PDFHexString, PDFString } = PDFLib;
+  const appearanceRef = (await embedScratchPage(pdfDoc, scratchPage, bounds)).ref;
+  const now = PDFString.fromDate(new Date());
+  const annotation = pdfDoc.context.obj({
+    Type: 'Annot',
+    Subtype: 'Stamp',
+    Rect: bounds,
+    AP: { N: appearanceRef },
+    F: ANNOTATION_PRINT_FLAG,
+    P: page.ref,
+    NM: PDFString.of(crypto.randomUUID()),
+    T: PDFHexString.fromText(output.author),
+    Subj: PDFHexString.fromText(output.subject),
+    CreationDate: now,
+    M: now,
+    ...(layer.kind === 'text' && { Contents: PDFHexString.fromText(layer.text) }),
+  });
+  page.node.addAnnot(pdfDoc.context.register(annotation));
+};
+
+/** The signature field to add for signPdf, and what its signature dictionary records. */
+export interface SignatureFieldOptions {
+  /** The layer shown as the visible signature, or null for an invisible signature. */
+  layerId: string | null;
+  signerName: string;
+  reason: string;
+}
+
+export interface StampOptions {
+  /**
+   * The page sizes of the document the layers were placed on. Defaults to the
+   * pages of this PDF; pass them when applying a placement to another document.
+   */
+  referencePageSizes?: Size[];
+  /**
+   * The pages as organized in the editor, which are rearranged before the layers
+   * are drawn. The layers' page indices refer to this arrangement.
+   */
+  pages?: OrganizedPage[];
+  /** How the PDF was opened, if it is encrypted. The stamped copy is encrypted as well. */
+  protection?: PdfProtection | null;
+  /** How the stamped copy of an encrypted PDF is encrypted. Defaults to keeping the original encryption. */
+  encryption?: OutputEncryption;
+  /** Whether the layers are drawn into the pages or added as Stamp annotations. Defaults to flattening them. */
+  output?: StampOutput;
+  /**
+   * Appends the changes to the original bytes as an incremental update instead of
+   * rewriting the file, so existing digital signatures stay valid. Encrypted PDFs
+   * can only be rewritten.
+   */
+  appendChanges?: boolean;
+  /**
+   * Adds a signature field to be signed with signPdf. Its layer is shown in the
+   * field's appearance, on the first page it is stamped on, instead of being drawn
+   * with the other layers. Encrypted PDFs can't be signed.
+   */
+  signature?: SignatureFieldOptions;
+  /**
+   * Writes sequential numbers onto the pages, after the layers. They always go into
+   * the page content, whatever the output mode, so they can't be removed like a stamp.
+   */
+  numbering?: PageNumbering;
+  /** The number of the first numbered page, to carry on from the documents before this one in a batch. */
+  firstPageNumber?: number;
+}
+
+/**
+ * Adds a signature field whose signature dictionary is a placeholder, with room
+ * for the signature in Contents and no ByteRange yet. signPdf fills both in
+ * once the file is saved.
+ * @param appearanceRef The visible appearance, or null for an invisible signature.
+ * @param bounds The area of the signature in the page's user space, as [left, bottom, right, top].
+ */
+const addSignatureField = (pdfDoc: any, page: any, appearanceRef: any, bounds: number[], signature: SignatureFieldOptions) => {
+  const { PDFHexString, PDFName, PDFNumber, PDFString } = PDFLib;
+  const { context } = pdfDoc;
+  const placeholder = PDFName.of(BYTE_RANGE_PLACEHOLDER);
+  const signatureRef = context.register(context.obj({
+    Type: 'Sig',
+    Filter: 'Adobe.PPKLite',
+    SubFilter: 'ETSI.CAdES.detached',
+    ByteRange: [0, placeholder, placeholder, placeholder],
+    Contents: PDFHexString.of('0'.repeat(SIGNATURE_CONTENTS_BYTES * 2)),
+    M: PDFString.fromDate(new Date()),
+    Name: PDFHexString.fromText(signature.signerName),
+    ...(signature.reason && { Reason: PDFHexString.fromText(signature.reason) }),
+  }));
+
+  const form = pdfDoc.getForm();
+  const fieldNames = new Set(form.getFields().map((field: any) => field.getName()));
+  let fieldNumber = 1;
+  while (fieldNames.has(`Signature${fieldNumber}`)) fieldNumber++;
+  // The field and its widget are merged into one dictionary, as is usual for signatures
+  const widgetRef = context.register(context.obj({
+    Type: 'Annot',
+    Subtype: 'Widget',
+    FT: 'Sig',
+    T: PDFString.of(`Signature${fieldNumber}`),
+    V: signatureRef,
+    Rect: appearanceRef ? bounds : [0, 0, 0, 0],
+    F: ANNOTATION_PRINT_FLAG,
+    P: page.ref,
+    ...(appearanceRef && { AP: { N: appearanceRef } }),
+  }));
+  page.node.addAnnot(widgetRef);
+  form.acroForm.addField(widgetRef);
+  // SignaturesExist and AppendOnly, so viewers save later changes as incremental updates
+  form.acroForm.dict.set(PDFName.of('SigFlags'), PDFNumber.of(3));
+};
+
+/**
+ * Draws all layers onto a PDF in a single pdf-lib pass.
+ * @param pdfBytes The PDF file contents.
+ * @param layers The layers to draw, bottom-most first.
+ * @returns The bytes of the stamped PDF.
+ */
+export const stampPdf = async (pdfBytes: ArrayBuffer, layers: Layer[], options: StampOptions = {}): Promise<Uint8Array> => {
+  const {
+    referencePageSizes, pages: organizedPages, protection, encryption = { mode: 'keep' }, output = { mode: 'flatten' },
+    appendChanges = false, signature, numbering, firstPageNumber,
+  } = options;
+  const { BlendMode, PDFPage, degrees, pushGraphicsState, popGraphicsState, concatTransformationMatrix } = PDFLib;
+  if (appendChanges && protection) {
+    throw new StampError('errorAppendEncrypted');
+  }
+  if (signature && protection) {
+    throw new StampError('errorSignEncrypted');
+  }
+  const pdfDoc = await loadDocument(pdfBytes, protection, appendChanges);
+  if (organizedPages) organizePages(pdfDoc, organizedPages);
+  const pages = pdfDoc.getPages();
+  const pageGeometries: PageGeometry[] = pages.map(getPageGeometry);
+  const referenceSizes: Size[] = referencePageSizes ?? pageGeometries.map(getDisplaySize);
+
+  // Duplicated layers share the same file, so each file is embedded only once
+  // and the same image object is reused for every page it is stamped on
+  const embeddedImages = new Map<File, any>();
+  const embedImage = async (layer: ImageLayer) => {
+    let embeddedImage = embeddedImages.get(layer.file);
+    if (!embeddedImage) {
+      const imageBuffer = await layer.file.arrayBuffer();
+      if (layer.file.type === 'image/png') {
+        embeddedImage = await pdfDoc.embedPng(imageBuffer);
+      } else if (layer.file.type === 'image/jpeg') {
+        embeddedImage = await pdfDoc.embedJpg(imageBuffer);
+      } else {
+        throw new StampError('errorUnsupportedImageType');
+      }
+      embeddedImages.set(layer.file, embeddedImage);
+    }
+    return embeddedImage;
+  };
+
+  // Fonts are subset, so only the glyphs used by the text stamps end up in the file
+  const embeddedFonts = new Map<FontFamily, any>();
+  const embedFont = async (family: FontFamily) => {
+    let font = embeddedFonts.get(family);
+    if (!font) {
+      if (embeddedFonts.size === 0) pdfDoc.registerFontkit(fontkit);
+      try {
+        font = await pdfDoc.embedFont(await loadFontBytes(family), { subset: true });
+      } catch (err) {
+        console.error(err);
+        throw new StampError('errorLoadFont');
+      }
+      embeddedFonts.set(family, font);
+    }
+    return font;
+  };
+
+  let isSignatureAdded = false;
+  for (const layer of layers) {
+    const referenceSize = referenceSizes[layer.pageIndex];
+    if (!referenceSize) continue;
+
+    const selectedPageIndices = resolvePageSelection(layer.pageSelection, layer.pageIndex, pages.length);
+    if (!selectedPageIndices) {
+      throw new StampError('errorInvalidPageRange');
+    }
+    const isSignature = layer.id === signature?.layerId;
+    // A signature field has a single appearance
+    const targetPageIndices = isSignature ? selectedPageIndices.slice(0, 1) : selectedPageIndices;
+
+    const drawOptions = {
+      opacity: layer.opacity,
+      blendMode: layer.blendMode === 'multiply' ? BlendMode.Multiply : BlendMode.Normal,
+    };
+    const embeddedImage = layer.kind === 'image' ? await embedImage(layer) : null;
+    const font = layer.kind === 'text' ? await embedFont(layer.fontFamily) : null;
+    const visualLines = layer.kind === 'text'
+      ? await Promise.all(layer.text.split('\n').map(toVisualOrder))
+      : [];
+    const drawLayer = (page: any, pageHeight: number, position: Point, size: Size, layerToDraw: Layer, options: typeof drawOptions) => {
+      if (layerToDraw.kind === 'text') {
+        drawTextBlock(page, pageHeight, font, visualLines, layerToDraw, position, size, options);
+      } else if (layerToDraw.kind === 'drawing') {
+        drawStrokes(page, pageHeight, layerToDraw, position, size, options);
+      } else if (layerToDraw.kind === 'vector') {
+        drawVectorShapes(page, pageHeight, layerToDraw, position, size, options);
+      } else {
+        const { rotate, ...rect } = toPdfRect(position, size, layerToDraw.rotation, pageHeight);
+        page.drawImage(embeddedImage, {
+          ...options,
+          ...rect,
+          rotate: degrees(rotate),
+        });
+      }
+    };
+    // The opacity and blend mode are applied where the copies are drawn
+    const tile = layer.tiling && targetPageIndices.length > 0
+      ? await embedTile(pdfDoc, layer, (page, pageHeight, position, size) => (
+        drawLayer(page, pageHeight, position, size, { ...layer, rotation: 0 }, { opacity: 1, blendMode: BlendMode.Normal })
+      ))
+      : null;
+
+    for (const pageIndex of targetPageIndices) {
+      const pageSize = getDisplaySize(pageGeometries[pageIndex]);
+      const pageHeight = pageSize.height;
+      const { position, size } = mapPlacementToPage(layer.position, layer.size, referenceSize, pageSize, layer.anchor);
+      const uprightToUser = getUprightToUserMatrix(pageGeometries[pageIndex]);
+      // An annotation is drawn on a page of its own first, in the same user space as the page it goes on
+      const isAnnotation = output.mode === 'annotation' || isSignature;
+      const page = isAnnotation ? PDFPage.create(pdfDoc) : pages[pageIndex];
+
+      // Layers are placed on the page as displayed, so draw in upright display coordinates
+      // and let the transform account for the page's rotation and the origin of its box
+      page.pushOperators(pushGraphicsState(), concatTransformationMatrix(...uprightToUser));
+
+      if (tile && layer.tiling) {
+        const xScale = size.width / layer.size.width;
+        const yScale = size.height / layer.size.height;
+        const padding = { x: tile.margin * xScale, y: tile.margin * yScale };
+        const paddedSize = { width: size.width + padding.x * 2, height: size.height + padding.y * 2 };
+        for (const tilePosition of getTilePositions(position, size, layer.rotation, pageSize, layer.tiling)) {
+          const paddedPosition = { x: tilePosition.x - padding.x, y: tilePosition.y - padding.y };
+          const { rotate, x, y } = toPdfRect(paddedPosition, paddedSize, layer.rotation, pageHeight);
+          page.drawPage(tile.embeddedPage, { ...drawOptions, x, y, xScale, yScale, rotate: degrees(rotate) });
+        }
+      } else {
+        drawLayer(page, pageHeight, position, size, layer, drawOptions);
+      }
+      page.pushOperators(popGraphicsState());
+
+      if (isAnnotation) {
+        // Copies of a tiled layer cover the whole page
+        const bounds = layer.tiling ? pageGeometries[pageIndex].viewBox : getLayerBounds(layer, position, size, pageHeight, uprightToUser);
+        if (signature && isSignature) {
+          addSignatureField(pdfDoc, pages[pageIndex], (await embedScratchPage(pdfDoc, page, bounds)).ref, bounds, signature);
+          isSignatureAdded = true;
+        } else if (output.mode === 'annotation') {
+          await addStampAnnotation(pdfDoc, pages[pageIndex], page, bounds, layer, output);
+        }
+      }
+    }
+  }
+  if (numbering?.enabled) {
+    const font = await embedFont(NUMBERING_FONT);
+    const labels = getPageNumberLabels(numbering, pages.length, firstPageNumber);
+    for (const [pageIndex, label] of labels.entries()) {
+      if (label === null) continue;
+      const visualLabel = await toVisualOrder(label);
+      const pageSize = getDisplaySize(pageGeometries[pageIndex]);
+      const size = { width: font.widthOfTextAtSize(visualLabel, numbering.fontSize), height: numbering.fontSize * LINE_HEIGHT };
+      const position = getNumberPosition(numbering.position, pageSize, size);
+      const style = { fontSize: numbering.fontSize, size, color: '#000000', align: 'left' as const, rotation: 0 };
+      const page = pages[pageIndex];
+      page.pushOperators(pushGraphicsState(), concatTransformationMatrix(...getUprightToUserMatrix(pageGeometries[pageIndex])));
+      drawTextBlock(page, pageSize.height, font, [visualLabel], style, position, size, {});
+      page.pushOperators(popGraphicsState());
+    }
+  }
+
+  // Without a layer of its own on this document, the signature is invisible
+  if (signature && !isSignatureAdded) {
+    addSignatureField(pdfDoc, pages[0], null, [0, 0, 0, 0], signature);
+  }
+
+  // signPdf finds the signature placeholder in the saved bytes, so it can't be compressed into an object stream
+  const saveOptions = signature ? { useObjectStreams: false } : {};
+  if (appendChanges) {
+    return pdfDoc.commit(saveOptions);
+  }
+  if (protection) {
+    pdfDoc.encrypt(getEncryptionOptions(protection, encryption));
+  }
+  return pdfDoc.save(saveOptions);
+};
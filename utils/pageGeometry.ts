@@ -0,0 +1,105 @@
+import { Matrix, PageGeometry, Point, Size } from '../types';
+
+// The direction of the user space x and y axes on screen, as [a, b, c, d], for each rotation
+const AXIS_DIRECTIONS: Record<number, [number, number, number, number]> = {
+  0: [1, 0, 0, -1],
+  90: [0, 1, 1, 0],
+  180: [-1, 0, 0, 1],
+  270: [0, -1, -1, 0],
+};
+
+/** Combines two affine transforms so that `outer` is applied after `inner`. */
+export const multiplyMatrices = (outer: Matrix, inner: Matrix): Matrix => {
+  const [a, b, c, d, e, f] = outer;
+  const [a2, b2, c2, d2, e2, f2] = inner;
+  return [
+    a * a2 + c * b2,
+    b * a2 + d * b2,
+    a * c2 + c * d2,
+    b * c2 + d * d2,
+    a * e2 + c * f2 + e,
+    b * e2 + d * f2 + f,
+  ];
+};
+
+export const invertMatrix = ([a, b, c, d, e, f]: Matrix): Matrix => {
+  const determinant = a * d - b * c;
+  return [
+    d / determinant,
+    -b / determinant,
+    -c / determinant,
+    a / determinant,
+    (c * f - d * e) / determinant,
+    (b * e - a * f) / determinant,
+  ];
+};
+
+export const applyMatrix = ([a, b, c, d, e, f]: Matrix, { x, y }: Point): Point => ({
+  x: a * x + c * y + e,
+  y: b * x + d * y + f,
+});
+
+/**
+ * Builds the geometry of a page the same way pdf.js does, so the editor and the
+ * merge agree on every page. The CropBox is clipped to the MediaBox, and a /Rotate
+ * value that is not a multiple of 90 is ignored.
+ * @param mediaBox The MediaBox as [x1, y1, x2, y2], in any corner order.
+ * @param cropBox The CropBox in the same form, if the page has one.
+ * @param rotation The /Rotate value, in degrees.
+ */
+export const createPageGeometry = (
+  mediaBox: number[],
+  cropBox: number[] | null,
+  rotation: number,
+): PageGeometry => {
+  const normalize = ([x1, y1, x2, y2]: number[]) => [Math.min(x1, x2), Math.min(y1, y2), Math.max(x1, x2), Math.max(y1, y2)];
+  const media = normalize(mediaBox);
+  let viewBox = media;
+  if (cropBox) {
+    const crop = normalize(cropBox);
+    const clipped = [Math.max(media[0], crop[0]), Math.max(media[1], crop[1]), Math.min(media[2], crop[2]), Math.min(media[3], crop[3])];
+    // A CropBox that doesn't overlap the MediaBox is invalid and falls back to the MediaBox
+    if (clipped[2] > clipped[0] && clipped[3] > clipped[1]) viewBox = clipped;
+  }
+  const isValidRotation = Number.isInteger(rotation) && rotation % 90 === 0;
+  return {
+    viewBox: viewBox as PageGeometry['viewBox'],
+    rotation: isValidRotation ? ((rotation % 360) + 360) % 360 : 0,
+  };
+};
+
+/** Returns the size of a page as it appears on screen, with its width and height swapped when it is turned sideways. */
+export const getDisplaySize = ({ viewBox: [x1, y1, x2, y2], rotation }: PageGeometry): Size => {
+  const sideways = rotation === 90 || rotation === 270;
+  return sideways
+    ? { width: y2 - y1, height: x2 - x1 }
+    : { width: x2 - x1, height: y2 - y1 };
+};
+
+/**
+ * Returns the transform from PDF user space to display coordinates, where the
+ * origin is the top-left corner of the page as shown and y points down. It is the
+ * transform of a pdf.js viewport at scale 1.
+ */
+export const getUserToDisplayMatrix = (geometry: PageGeometry): Matrix => {
+  const [x1, y1, x2, y2] = geometry.viewBox;
+  const { width, height } = getDisplaySize(geometry);
+  const [a, b, c, d] = AXIS_DIRECTIONS[geometry.rotation] ?? AXIS_DIRECTIONS[0];
+  // Rotate around the center of the view box, then move its center to the center of the display
+  const centerX = (x1 + x2) / 2;
+  const centerY = (y1 + y2) / 2;
+  return [a, b, c, d, width / 2 - a * centerX - c * centerY, height / 2 - b * centerX - d * centerY];
+};
+
+/**
+ * Returns the transform from upright page coordinates to PDF user space. Upright
+ * coordinates are display coordinates with the origin at the bottom-left corner
+ * and y pointing up, which is what the placement helpers produce, so content drawn
+ * with this transform lands exactly where it was placed in the editor, whatever the
+ * page's rotation and box origin.
+ */
+export const getUprightToUserMatrix = (geometry: PageGeometry): Matrix => {
+  const { height } = getDisplaySize(geometry);
+  const flipY: Matrix = [1, 0, 0, -1, 0, height];
+  return multiplyMatrices(invertMatrix(getUserToDisplayMatrix(geometry)), flipY);
+};
@@ -0,0 +1,52 @@
+import { FontFamily, NumberingPosition, PageNumbering, Point, Size } from '../types';
+
+/** The font page numbers are written in, in the preview and the merge. */
+export const NUMBERING_FONT: FontFamily = 'alef';
+
+/** The distance of a page number from the edges of the page, in points. */
+export const NUMBERING_MARGIN = 24;
+
+export const DEFAULT_PAGE_NUMBERING: PageNumbering = {
+  enabled: false,
+  prefix: '',
+  start: 1,
+  padding: 0,
+  position: 'bottom-right',
+  fontSize: 10,
+  skipPages: 0,
+};
+
+/**
+ * Returns the number written on each page of a document, or null for the pages
+ * at the start that are skipped.
+ * @param pageCount The number of pages in the document.
+ * @param firstNumber The number of the first numbered page, which continues from the
+ * documents before this one in a batch. Defaults to the start number.
+ */
+export const getPageNumberLabels = (numbering: PageNumbering, pageCount: number, firstNumber = numbering.start): (string | null)[] => {
+  return Array.from({ length: pageCount }, (_, index) => {
+    if (index < numbering.skipPages) return null;
+    const number = firstNumber + index - numbering.skipPages;
+    return numbering.prefix + String(number).padStart(numbering.padding, '0');
+  });
+};
+
+/** Returns how many pages of a document are numbered, so that the next document in a batch carries on from there. */
+export const countNumberedPages = (numbering: PageNumbering, pageCount: number): number => {
+  return Math.max(0, pageCount - numbering.skipPages);
+};
+
+/**
+ * Returns where a page number goes on a page.
+ * @param pageSize The size of the page as displayed, in points.
+ * @param labelSize The size of the number's text, in points.
+ * @returns The top-left corner of the text, in points from the top-left of the page.
+ */
+export const getNumberPosition = (position: NumberingPosition, pageSize: Size, labelSize: Size): Point => {
+  const [vertical, horizontal] = position.split('-');
+  let x = NUMBERING_MARGIN;
+  if (horizontal === 'center') x = (pageSize.width - labelSize.width) / 2;
+  else if (horizontal === 'right') x = pageSize.width - NUMBERING_MARGIN - labelSize.width;
+  const y = vertical === 'top' ? NUMBERING_MARGIN : pageSize.height - NUMBERING_MARGIN - labelSize.height;
+  return { x, y };
+};
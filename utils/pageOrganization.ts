@@ -0,0 +1,83 @@
+import { Layer, OrganizedPage, Size } from '../types';
+
+/** Lists the pages of a PDF in their original order, without any added rotation. */
+export const createPageList = (pageCount: number): OrganizedPage[] => {
+  return Array.from({ length: pageCount }, (_, sourceIndex) => ({
+    id: crypto.randomUUID(),
+    kind: 'original',
+    sourceIndex,
+    rotation: 0,
+  }));
+};
+
+/** Checks whether a page list leaves a PDF of `pageCount` pages as it is. */
+export const isOriginalOrder = (pages: OrganizedPage[], pageCount: number): boolean => {
+  return pages.length === pageCount
+    && pages.every((page, index) => page.kind === 'original' && page.sourceIndex === index && page.rotation === 0);
+};
+
+/**
+ * Returns the size of an organized page as it is displayed.
+ * @param sourceSizes The displayed sizes of the pages of the original PDF.
+ */
+export const getOrganizedPageSize = (page: OrganizedPage, sourceSizes: Size[]): Size => {
+  const size = page.kind === 'blank' ? page.size : sourceSizes[page.sourceIndex];
+  return page.rotation % 180 === 0 ? size : { width: size.height, height: size.width };
+};
+
+/** Moves a page to another position in the list. */
+export const movePage = (pages: OrganizedPage[], from: number, to: number): OrganizedPage[] => {
+  if (from === to) return pages;
+  const next = pages.filter((_, index) => index !== from);
+  next.splice(to, 0, pages[from]);
+  return next;
+};
+
+/** Turns a page a quarter turn clockwise, or counterclockwise for a direction of -1. */
+export const rotatePage = (pages: OrganizedPage[], index: number, direction: 1 | -1): OrganizedPage[] => {
+  return pages.map((page, i) => i === index ? { ...page, rotation: (page.rotation + 90 * direction + 360) % 360 } : page);
+};
+
+/** Inserts a blank page of the given size at a position in the list. */
+export const insertBlankPage = (pages: OrganizedPage[], index: number, size: Size): OrganizedPage[] => {
+  return [...pages.slice(0, index), { id: crypto.randomUUID(), kind: 'blank', size, rotation: 0 }, ...pages.slice(index)];
+};
+
+/**
+ * Moves layers along with their pages once the page list has changed. Layers on
+ * a page that was removed are removed with it.
+ * @param before The page list the layers' page indices refer to.
+ * @param after The new page list.
+ */
+export const remapLayers = (layers: Layer[], before: OrganizedPage[], after: OrganizedPage[]): Layer[] => {
+  const newIndices = new Map(after.map((page, index) => [page.id, index]));
+  return layers.flatMap(layer => {
+    const page = before[layer.pageIndex];
+    if (!page) return [layer];
+    const pageIndex = newIndices.get(page.id);
+    if (pageIndex === undefined) return [];
+    return [pageIndex === layer.pageIndex ? layer : { ...layer, pageIndex }];
+  });
+};
+
+/**
+ * Turns the layers placed on a page along with it, so they stay on the same spot
+ * of the page's content.
+ * @param pageSize The displayed size of the page before it is turned.
+ * @param direction 1 for a quarter turn clockwise, -1 for counterclockwise.
+ */
+export const rotateLayers = (layers: Layer[], pageIndex: number, pageSize: Size, direction: 1 | -1): Layer[] => {
+  return layers.map(layer => {
+    if (layer.pageIndex !== pageIndex) return layer;
+    const center = { x: layer.position.x + layer.size.width / 2, y: layer.position.y + layer.size.height / 2 };
+    // Layers turn around their center, so turning the center with the page is enough
+    const turned = direction === 1
+      ? { x: pageSize.height - center.y, y: center.x }
+      : { x: center.y, y: pageSize.width - center.x };
+    return {
+      ...layer,
+      position: { x: turned.x - layer.size.width / 2, y: turned.y - layer.size.height / 2 },
+      rotation: (layer.rotation + 90 * direction + 360) % 360,
+    };
+  });
+};
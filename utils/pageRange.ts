@@ -0,0 +1,58 @@
+import { PageSelection } from '../types';
+
+/**
+ * Parses a page range such as "1,3-7,last" into sorted, zero-based page indices.
+ * Page numbers are one-based, "last" refers to the final page and ranges may be
+ * written in either direction ("7-3").
+ * @param input The range typed by the user.
+ * @param pageCount The number of pages in the document.
+ * @returns The selected page indices, or null if the range is invalid or out of bounds.
+ */
+export const parsePageRange = (input: string, pageCount: number): number[] | null => {
+  const toPageNumber = (token: string): number | null => {
+    const value = token.trim().toLowerCase();
+    if (value === 'last') return pageCount;
+    if (!/^\d+$/.test(value)) return null;
+    const page = parseInt(value, 10);
+    return page >= 1 && page <= pageCount ? page : null;
+  };
+
+  const parts = input.split(',').map(part => part.trim()).filter(part => part.length > 0);
+  if (parts.length === 0) return null;
+
+  const pages = new Set<number>();
+  for (const part of parts) {
+    const bounds = part.split('-');
+    if (bounds.length > 2) return null;
+    const start = toPageNumber(bounds[0]);
+    const end = bounds.length === 2 ? toPageNumber(bounds[1]) : start;
+    if (start === null || end === null) return null;
+    for (let page = Math.min(start, end); page <= Math.max(start, end); page++) {
+      pages.add(page - 1);
+    }
+  }
+  return Array.from(pages).sort((a, b) => a - b);
+};
+
+/**
+ * Resolves a layer's page selection into the zero-based indices it should be stamped on.
+ * @param selection The page selection of the layer.
+ * @param anchorPageIndex The page the layer was placed on, used for the 'current' mode.
+ * @param pageCount The number of pages in the document.
+ * @returns The selected page indices, or null if a custom range is invalid.
+ */
+export const resolvePageSelection = (selection: PageSelection, anchorPageIndex: number, pageCount: number): number[] | null => {
+  const allPages = Array.from({ length: pageCount }, (_, index) => index);
+  switch (selection.mode) {
+    case 'current':
+      return anchorPageIndex < pageCount ? [anchorPageIndex] : [];
+    case 'all':
+      return allPages;
+    case 'odd':
+      return allPages.filter(index => index % 2 === 0);
+    case 'even':
+      return allPages.filter(index => index % 2 === 1);
+    case 'custom':
+      return parsePageRange(selection.range, pageCount);
+  }
+};
@@ -0,0 +1,74 @@
+import { OutputEncryption, PdfProtection } from '../types';
+
+// pdf-lib is loaded from CDN and available as a global
+declare const PDFLib: any;
+
+// The permission flags pdf.js reports, as defined in the PDF specification
+const PERMISSION_FLAGS = {
+  print: 0x04,
+  modifyContents: 0x08,
+  copy: 0x10,
+  modifyAnnotations: 0x20,
+  fillForms: 0x100,
+  copyForAccessibility: 0x200,
+  assemble: 0x400,
+  printHighQuality: 0x800,
+};
+
+/**
+ * Checks whether the owner of a PDF allows changing its content, which stamping does.
+ * @param permissions The flags from pdf.js's getPermissions, which are null for unencrypted files.
+ */
+export const canModifyContent = (permissions: number[] | null): boolean => {
+  return !permissions || permissions.includes(PERMISSION_FLAGS.modifyContents);
+};
+
+/**
+ * Checks whether a password opens a PDF, as either its user or its owner password.
+ * @param pdfBytes The PDF file contents.
+ */
+export const isPdfPassword = async (pdfBytes: ArrayBuffer, password: string): Promise<boolean> => {
+  try {
+    await PDFLib.PDFDocument.load(pdfBytes, { password });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/** Converts pdf.js permission flags into pdf-lib's encryption permissions. */
+const toUserPermissions = (permissions: number[]) => {
+  const allows = (flag: number) => permissions.includes(flag);
+  return {
+    // Without the print flag, the high quality flag means nothing
+    printing: !allows(PERMISSION_FLAGS.print) ? undefined : allows(PERMISSION_FLAGS.printHighQuality) ? 'highResolution' : 'lowResolution',
+    modifying: allows(PERMISSION_FLAGS.modifyContents),
+    copying: allows(PERMISSION_FLAGS.copy),
+    annotating: allows(PERMISSION_FLAGS.modifyAnnotations),
+    fillingForms: allows(PERMISSION_FLAGS.fillForms),
+    contentAccessibility: allows(PERMISSION_FLAGS.copyForAccessibility),
+    documentAssembly: allows(PERMISSION_FLAGS.assemble),
+  };
+};
+
+/** Creates a password no one knows, so restrictions can't be lifted with it. */
+const createRandomPassword = () => {
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Returns the pdf-lib encryption options for the stamped copy of an encrypted PDF.
+ * Keeping the encryption keeps the user password and the restrictions; when the
+ * owner password isn't known, a random one takes its place, so the restrictions
+ * still hold.
+ */
+export const getEncryptionOptions = (protection: PdfProtection, output: OutputEncryption) => {
+  if (output.mode === 'new') {
+    return { userPassword: output.password, ownerPassword: output.password };
+  }
+  return {
+    userPassword: protection.userPassword || undefined,
+    ownerPassword: protection.ownerPassword ?? createRandomPassword(),
+    permissions: toUserPermissions(protection.permissions),
+  };
+};
@@ -0,0 +1,178 @@
+import { StampError } from './mergePdf';
+
+// node-forge is CommonJS only, so it is loaded through esm.sh. It reads the PKCS#12
+// file and makes the RSA signature; the CMS structure around it is built here, since
+// forge's PKCS#7 support can't add the attributes PAdES requires
+const forgePromise = import( /* @vite-ignore */ 'https://esm.sh/node-forge@1.3.1').then(module => module.default ?? module);
+
+const OIDS = {
+  data: '1.2.840.113549.1.7.1',
+  signedData: '1.2.840.113549.1.7.2',
+  contentType: '1.2.840.113549.1.9.3',
+  messageDigest: '1.2.840.113549.1.9.4',
+  signingCertificateV2: '1.2.840.113549.1.9.16.2.47',
+  sha256: '2.16.840.1.101.3.4.2.1',
+  rsaEncryption: '1.2.840.113549.1.1.1',
+};
+
+/**
+ * A certificate and private key read from a PKCS#12 file. They are only held in
+ * memory while the page is open and are never stored.
+ */
+export interface SigningCredentials {
+  /** A forge RSA private key. */
+  privateKey: any;
+  /** Forge certificates, the signer's first, followed by the rest of its chain. */
+  certificates: any[];
+  /** The common name of the signer. */
+  signerName: string;
+  validTo: Date;
+}
+
+/** Converts bytes into the binary string forge works with. */
+const toBinaryString = (bytes: Uint8Array) => {
+  let result = '';
+  // Converted in chunks, since spreading a large array into fromCharCode overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    result += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return result;
+};
+
+/**
+ * Reads the certificate and private key from a PKCS#12 (.p12 or .pfx) file.
+ * Only RSA keys are supported.
+ * @param file The PKCS#12 file.
+ * @param password The password the file was exported with.
+ */
+export const readCredentials = async (file: File, password: string): Promise<SigningCredentials> => {
+  const forge = await forgePromise;
+  const { pki } = forge;
+  let p12: any;
+  try {
+    const der = toBinaryString(new Uint8Array(await file.arrayBuffer()));
+    p12 = forge.pkcs12.pkcs12FromAsn1(forge.asn1.fromDer(der), password);
+  } catch (err) {
+    console.error(err);
+    // forge reports a failed MAC check, which is what a wrong password causes, with this message
+    const isWrongPassword = /Invalid password/i.test((err as Error)?.message ?? '');
+    throw new StampError(isWrongPassword ? 'errorCertificatePassword' : 'errorCertificateInvalid');
+  }
+
+  const keyBags = [
+    ...(p12.getBags({ bagType: pki.oids.pkcs8ShroudedKeyBag })[pki.oids.pkcs8ShroudedKeyBag] ?? []),
+    ...(p12.getBags({ bagType: pki.oids.keyBag })[pki.oids.keyBag] ?? []),
+  ];
+  const certificates = (p12.getBags({ bagType: pki.oids.certBag })[pki.oids.certBag] ?? [])
+    .map((bag: any) => bag.cert)
+    .filter(Boolean);
+  // forge leaves the key empty when it isn't RSA
+  const privateKey = keyBags.map(bag => bag.key).find(key => key?.n);
+  if (!privateKey) throw new StampError('errorCertificateInvalid');
+
+  // The signer's certificate is the one holding the public half of the key
+  const signerIndex = certificates.findIndex((cert: any) => cert.publicKey?.n?.equals(privateKey.n));
+  if (signerIndex === -1) throw new StampError('errorCertificateInvalid');
+  const signer = certificates[signerIndex];
+  return {
+    privateKey,
+    certificates: [signer, ...certificates.filter((_: any, index: number) => index !== signerIndex)],
+    signerName: signer.subject.getField('CN')?.value ?? '',
+    validTo: signer.validity.notAfter,
+  };
+};
+
+/**
+ * Builds a detached CMS SignedData structure for a document digest, with the
+ * signed attributes PAdES baseline signatures require. The signing time is left
+ * out, since PAdES takes it from the signature dictionary.
+ * @param digest The SHA-256 digest of the signed byte ranges, as a binary string.
+ * @returns The DER encoding, as a binary string.
+ */
+const createSignedData = (forge: any, credentials: SigningCredentials, digest: string): string => {
+  const { asn1, pki } = forge;
+  const { Class, Type } = asn1;
+  const create = (type: number, value: any) => asn1.create(Class.UNIVERSAL, type, Array.isArray(value), value);
+  const oid = (value: string) => create(Type.OID, asn1.oidToDer(value).getBytes());
+  const sequence = (items: any[]) => create(Type.SEQUENCE, items);
+  const set = (items: any[]) => create(Type.SET, items);
+  const algorithm = (value: string) => sequence([oid(value), create(Type.NULL, '')]);
+  const attribute = (type: string, value: any) => sequence([oid(type), set([value])]);
+
+  const [signer] = credentials.certificates;
+  const signerDer = asn1.toDer(pki.certificateToAsn1(signer)).getBytes();
+  const certificateHash = forge.md.sha256.create().update(signerDer).digest().getBytes();
+  const issuerAndSerial = sequence([
+    pki.distinguishedNameToAsn1(signer.issuer),
+    create(Type.INTEGER, forge.util.hexToBytes(signer.serialNumber)),
+  ]);
+
+  // Listed in the order DER requires for a SET OF, which is by encoded length here
+  const signedAttributes = [
+    attribute(OIDS.contentType, oid(OIDS.data)),
+    attribute(OIDS.messageDigest, create(Type.OCTETSTRING, digest)),
+    attribute(OIDS.signingCertificateV2, sequence([sequence([sequence([create(Type.OCTETSTRING, certificateHash)])])])),
+  ];
+  // The signature covers the attributes encoded as a SET, not with the implicit tag they are stored under
+  const signedAttributesDer = asn1.toDer(set(signedAttributes)).getBytes();
+  const signature = credentials.privateKey.sign(forge.md.sha256.create().update(signedAttributesDer));
+
+  const signerInfo = sequence([
+    create(Type.INTEGER, asn1.integerToDer(1).getBytes()),
+    issuerAndSerial,
+    algorithm(OIDS.sha256),
+    asn1.create(Class.CONTEXT_SPECIFIC, 0, true, signedAttributes),
+    algorithm(OIDS.rsaEncryption),
+    create(Type.OCTETSTRING, signature),
+  ]);
+  const signedData = sequence([
+    create(Type.INTEGER, asn1.integerToDer(1).getBytes()),
+    set([algorithm(OIDS.sha256)]),
+    sequence([oid(OIDS.data)]),
+    asn1.create(Class.CONTEXT_SPECIFIC, 0, true, credentials.certificates.map(cert => pki.certificateToAsn1(cert))),
+    set([signerInfo]),
+  ]);
+  const contentInfo = sequence([
+    oid(OIDS.signedData),
+    asn1.create(Class.CONTEXT_SPECIFIC, 0, true, [signedData]),
+  ]);
+  return asn1.toDer(contentInfo).getBytes();
+};
+
+/**
+ * Signs a PDF that was stamped with a signature placeholder. The placeholder's
+ * ByteRange is filled in, the bytes around its Contents are hashed, and the
+ * signature is written into Contents, so the file keeps its length.
+ * @param pdfBytes The stamped PDF, saved without object streams.
+ * @returns The signed PDF.
+ */
+export const signPdf = async (pdfBytes: Uint8Array, credentials: SigningCredentials): Promise<Uint8Array> => {
+  const forge = await forgePromise;
+  const text = new TextDecoder('latin1').decode(pdfBytes);
+  const byteRangeMatch = /\/ByteRange\s*\[\s*0\s+\/\*+\s+\/\*+\s+\/\*+\s*\]/g;
+  let placeholder: RegExpExecArray | null = null;
+  for (let match = byteRangeMatch.exec(text); match; match = byteRangeMatch.exec(text)) placeholder = match;
+  if (!placeholder) throw new StampError('errorSignaturePlaceholderMissing');
+  const contents = /\/Contents\s*<(0+)>/.exec(text.slice(placeholder.index));
+  if (!contents) throw new StampError('errorSignaturePlaceholderMissing');
+
+  // The signed ranges are everything except the hex string of Contents, including its angle brackets
+  const contentsStart = placeholder.index + contents.index + contents[0].indexOf('<');
+  const contentsEnd = contentsStart + contents[1].length + 2;
+  const byteRange = `/ByteRange [0 ${contentsStart} ${contentsEnd} ${pdfBytes.length - contentsEnd}]`;
+  if (byteRange.length > placeholder[0].length) throw new StampError('errorSignaturePlaceholderTooShort');
+
+  const signed = pdfBytes.slice();
+  const encoder = new TextEncoder();
+  signed.set(encoder.encode(byteRange.padEnd(placeholder[0].length, ' ')), placeholder.index);
+
+  const signedRanges = new Uint8Array(contentsStart + signed.length - contentsEnd);
+  signedRanges.set(signed.subarray(0, contentsStart));
+  signedRanges.set(signed.subarray(contentsEnd), contentsStart);
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', signedRanges));
+
+  const signatureHex = forge.util.bytesToHex(createSignedData(forge, credentials, toBinaryString(digest)));
+  if (signatureHex.length > contents[1].length) throw new StampError('errorSignatureTooLarge');
+  signed.set(encoder.encode(signatureHex.padEnd(contents[1].length, '0')), contentsStart + 1);
+  return signed;
+};
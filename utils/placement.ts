@@ -0,0 +1,87 @@
+import { PlacementAnchor, Point, Size } from '../types';
+
+/** Every way a placement can follow the page size, in the order they are offered. */
+export const PLACEMENT_ANCHORS: PlacementAnchor[] = ['relative', 'top-left', 'top-right', 'bottom-left', 'bottom-right'];
+
+/**
+ * Maps a placement made on a reference page onto a page of a different size.
+ * With the 'relative' anchor the top-left corner keeps its position relative to
+ * the page size and the box is scaled uniformly, so the image is never distorted.
+ * With a corner anchor the box keeps its size and its distance from that corner.
+ * @param position The top-left corner on the reference page, in points.
+ * @param size The size on the reference page, in points.
+ * @param referencePage The size of the page the placement was made on.
+ * @param targetPage The size of the page to stamp.
+ * @param anchor How the placement follows the page size.
+ * @returns The position and size on the target page, in points.
+ */
+export const mapPlacementToPage = (
+  position: Point,
+  size: Size,
+  referencePage: Size,
+  targetPage: Size,
+  anchor: PlacementAnchor = 'relative',
+): { position: Point; size: Size } => {
+  if (anchor === 'relative') {
+    const scaleX = targetPage.width / referencePage.width;
+    const scaleY = targetPage.height / referencePage.height;
+    const sizeScale = Math.min(scaleX, scaleY);
+    return {
+      position: { x: position.x * scaleX, y: position.y * scaleY },
+      size: { width: size.width * sizeScale, height: size.height * sizeScale },
+    };
+  }
+
+  const fromRight = anchor === 'top-right' || anchor === 'bottom-right';
+  const fromBottom = anchor === 'bottom-left' || anchor === 'bottom-right';
+  return {
+    position: {
+      x: fromRight ? targetPage.width - (referencePage.width - position.x) : position.x,
+      y: fromBottom ? targetPage.height - (referencePage.height - position.y) : position.y,
+    },
+    size,
+  };
+};
+
+/**
+ * Converts a point given relative to the top-left corner of a rotated box into
+ * upright page coordinates, where the origin is the bottom-left corner of the page
+ * as displayed. See getUprightToUserMatrix for the step into PDF user space.
+ * @param position The top-left corner of the unrotated box, in points from the top-left of the page.
+ * @param size The size of the box, in points.
+ * @param rotation The clockwise rotation of the box around its center, in degrees.
+ * @param pageHeight The height of the page as displayed, in points.
+ * @param point The point inside the unrotated box, relative to its top-left corner.
+ */
+export const boxPointToPdf = (position: Point, size: Size, rotation: number, pageHeight: number, point: Point): Point => {
+  const radians = rotation * Math.PI / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const offsetX = point.x - size.width / 2;
+  const offsetY = point.y - size.height / 2;
+  // Top-left page coordinates have y pointing down, so this matrix rotates clockwise on screen
+  const pageX = position.x + size.width / 2 + offsetX * cos - offsetY * sin;
+  const pageY = position.y + size.height / 2 + offsetX * sin + offsetY * cos;
+  return { x: pageX, y: pageHeight - pageY };
+};
+
+/**
+ * Converts a box in top-left page coordinates into the parameters pdf-lib's
+ * drawImage expects. pdf-lib rotates counter-clockwise around the bottom-left
+ * corner of the image, while the editor rotates clockwise around the center,
+ * so the corner is moved to keep the center in place.
+ * @param position The top-left corner of the unrotated box, in points from the top-left of the page.
+ * @param size The size of the box, in points.
+ * @param rotation The clockwise rotation around the center, in degrees.
+ * @param pageHeight The height of the page as displayed, in points.
+ * @returns The bottom-left corner in upright page coordinates, the size, and the counter-clockwise rotation in degrees.
+ */
+export const toPdfRect = (
+  position: Point,
+  size: Size,
+  rotation: number,
+  pageHeight: number,
+): { x: number; y: number; width: number; height: number; rotate: number } => {
+  const corner = boxPointToPdf(position, size, rotation, pageHeight, { x: 0, y: size.height });
+  return { ...corner, width: size.width, height: size.height, rotate: -rotation };
+};
@@ -0,0 +1,359 @@
+import { QrErrorCorrection } from '../types';
+
+// The tables below are indexed by error correction level and then by version 1 to 40 (index 0 is unused),
+// as listed in ISO/IEC 18004
+const ECC_CODEWORDS_PER_BLOCK: Record<QrErrorCorrection, number[]> = {
+  L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+};
+const ERROR_CORRECTION_BLOCKS: Record<QrErrorCorrection, number[]> = {
+  L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+};
+/** The two bits that stand for each error correction level in the format information. */
+const FORMAT_BITS: Record<QrErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 };
+const MAX_VERSION = 40;
+const BYTE_MODE = 0x4;
+// Weights of the mask penalty rules, which keep the symbol easy to scan
+const PENALTY_RUN = 3;
+const PENALTY_BLOCK = 3;
+const PENALTY_FINDER_LIKE = 40;
+const PENALTY_BALANCE = 10;
+
+/** Multiplies two elements of the Galois field GF(2^8) used by QR codes. */
+const multiplyGf = (x: number, y: number): number => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+/** Returns the generator polynomial of a Reed-Solomon code with `degree` error correction codewords. */
+const getReedSolomonDivisor = (degree: number): number[] => {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = multiplyGf(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = multiplyGf(root, 0x02);
+  }
+  return result;
+};
+
+/** Computes the error correction codewords of a block of data. */
+const getReedSolomonRemainder = (data: number[], divisor: number[]): number[] => {
+  const result = new Array<number>(divisor.length).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ result.shift()!;
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= multiplyGf(coefficient, factor);
+    });
+  }
+  return result;
+};
+
+/** The number of modules that hold data and error correction, after the function patterns. */
+const getRawDataModules = (version: number): number => {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignmentCount = Math.floor(version / 7) + 2;
+    result -= (25 * alignmentCount - 10) * alignmentCount - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+};
+
+/** The number of 8-bit data codewords a symbol holds, not counting error correction. */
+const getDataCodewords = (version: number, level: QrErrorCorrection): number => {
+  return Math.floor(getRawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[level][version] * ERROR_CORRECTION_BLOCKS[level][version];
+};
+
+/** The centers of the alignment patterns along each axis, in ascending order. */
+const getAlignmentPositions = (version: number, size: number): number[] => {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const step = Math.floor((version * 8 + count * 3 + 5) / (count * 4 - 4)) * 2;
+  const result = [6];
+  for (let position = size - 7; result.length < count; position -= step) {
+    result.splice(1, 0, position);
+  }
+  return result;
+};
+
+/** Returns the 15 bits of format information, with their BCH error correction and mask applied. */
+const getFormatBits = (level: QrErrorCorrection, mask: number): number => {
+  const data = (FORMAT_BITS[level] << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  return ((data << 10) | remainder) ^ 0x5412;
+};
+
+const getBit = (value: number, index: number) => ((value >>> index) & 1) !== 0;
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => x * y % 2 + x * y % 3 === 0,
+  (x, y) => (x * y % 2 + x * y % 3) % 2 === 0,
+  (x, y) => ((x + y) % 2 + x * y % 3) % 2 === 0,
+];
+
+/** Splits the data into blocks, adds the error correction of each, and interleaves the blocks. */
+const addErrorCorrection = (data: number[], version: number, level: QrErrorCorrection): number[] => {
+  const blockCount = ERROR_CORRECTION_BLOCKS[level][version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[level][version];
+  const rawCodewords = Math.floor(getRawDataModules(version) / 8);
+  const shortBlockCount = blockCount - rawCodewords % blockCount;
+  const shortBlockLength = Math.floor(rawCodewords / blockCount);
+  const divisor = getReedSolomonDivisor(eccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < blockCount; i++) {
+    const length = shortBlockLength - eccLength + (i < shortBlockCount ? 0 : 1);
+    const block = data.slice(offset, offset + length);
+    offset += length;
+    const ecc = getReedSolomonRemainder(block, divisor);
+    // Short blocks are padded, so all blocks can be read column by column
+    if (i < shortBlockCount) block.push(0);
+    blocks.push([...block, ...ecc]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - eccLength || j >= shortBlockCount) result.push(block[i]);
+    });
+  }
+  return result;
+};
+
+/** A QR code symbol being built, with the modules that belong to function patterns marked. */
+interface QrSymbol {
+  version: number;
+  size: number;
+  modules: boolean[][];
+  isFunction: boolean[][];
+}
+
+const setFunctionModule = (symbol: QrSymbol, x: number, y: number, isDark: boolean) => {
+  symbol.modules[y][x] = isDark;
+  symbol.isFunction[y][x] = true;
+};
+
+const drawFormatBits = (symbol: QrSymbol, level: QrErrorCorrection, mask: number) => {
+  const { size } = symbol;
+  const bits = getFormatBits(level, mask);
+  for (let i = 0; i <= 5; i++) setFunctionModule(symbol, 8, i, getBit(bits, i));
+  setFunctionModule(symbol, 8, 7, getBit(bits, 6));
+  setFunctionModule(symbol, 8, 8, getBit(bits, 7));
+  setFunctionModule(symbol, 7, 8, getBit(bits, 8));
+  for (let i = 9; i < 15; i++) setFunctionModule(symbol, 14 - i, 8, getBit(bits, i));
+  for (let i = 0; i < 8; i++) setFunctionModule(symbol, size - 1 - i, 8, getBit(bits, i));
+  for (let i = 8; i < 15; i++) setFunctionModule(symbol, 8, size - 15 + i, getBit(bits, i));
+  setFunctionModule(symbol, 8, size - 8, true);
+};
+
+/** Draws the finder, timing and alignment patterns and the version information, and reserves the format areas. */
+const drawFunctionPatterns = (symbol: QrSymbol, level: QrErrorCorrection) => {
+  const { size, version } = symbol;
+  for (let i = 0; i < size; i++) {
+    setFunctionModule(symbol, 6, i, i % 2 === 0);
+    setFunctionModule(symbol, i, 6, i % 2 === 0);
+  }
+  [[3, 3], [size - 4, 3], [3, size - 4]].forEach(([x, y]) => {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        if (x + dx >= 0 && x + dx < size && y + dy >= 0 && y + dy < size) {
+          setFunctionModule(symbol, x + dx, y + dy, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+  });
+  const positions = getAlignmentPositions(version, size);
+  const last = positions.length - 1;
+  positions.forEach((x, i) => positions.forEach((y, j) => {
+    // The corners with finder patterns have no alignment pattern
+    if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) setFunctionModule(symbol, x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+    }
+  }));
+  // The format bits are written again once the mask is chosen
+  drawFormatBits(symbol, level, 0);
+
+  if (version >= 7) {
+    let remainder = version;
+    for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    const bits = (version << 12) | remainder;
+    for (let i = 0; i < 18; i++) {
+      const a = size - 11 + i % 3;
+      const b = Math.floor(i / 3);
+      setFunctionModule(symbol, a, b, getBit(bits, i));
+      setFunctionModule(symbol, b, a, getBit(bits, i));
+    }
+  }
+};
+
+/** Places the codewords in the zigzag order, in pairs of columns from the bottom-right corner. */
+const drawCodewords = (symbol: QrSymbol, codewords: number[]) => {
+  const { size, modules, isFunction } = symbol;
+  let i = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    // The vertical timing pattern is skipped
+    if (right === 6) right = 5;
+    for (let vertical = 0; vertical < size; vertical++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const isUpward = ((right + 1) & 2) === 0;
+        const y = isUpward ? size - 1 - vertical : vertical;
+        if (!isFunction[y][x] && i < codewords.length * 8) {
+          modules[y][x] = getBit(codewords[i >>> 3], 7 - (i & 7));
+          i++;
+        }
+      }
+    }
+  }
+};
+
+/** Flips the data modules where a mask pattern is true. Applying the same mask twice undoes it. */
+const applyMask = (symbol: QrSymbol, mask: number) => {
+  for (let y = 0; y < symbol.size; y++) {
+    for (let x = 0; x < symbol.size; x++) {
+      if (!symbol.isFunction[y][x] && MASKS[mask](x, y)) symbol.modules[y][x] = !symbol.modules[y][x];
+    }
+  }
+};
+
+/** Scores how hard a symbol is to scan: long runs, blocks, finder-like patterns and an uneven balance. */
+const getPenalty = ({ size, modules }: QrSymbol): number => {
+  let result = 0;
+  const scoreLine = (getModule: (i: number) => boolean) => {
+    // The lengths of the last seven runs, to spot 1:1:3:1:1 patterns that look like finders
+    const history = new Array<number>(7).fill(0);
+    const addHistory = (length: number) => {
+      // The light border before the symbol counts as part of the first run
+      if (history[0] === 0) length += size;
+      history.pop();
+      history.unshift(length);
+    };
+    const countFinderLike = () => {
+      const n = history[1];
+      const isCore = n > 0 && history[2] === n && history[3] === n * 3 && history[4] === n && history[5] === n;
+      return (isCore && history[0] >= n * 4 && history[6] >= n ? 1 : 0) + (isCore && history[6] >= n * 4 && history[0] >= n ? 1 : 0);
+    };
+    let runColor = false;
+    let runLength = 0;
+    for (let i = 0; i < size; i++) {
+      if (getModule(i) === runColor) {
+        runLength++;
+        if (runLength === 5) result += PENALTY_RUN;
+        else if (runLength > 5) result++;
+      } else {
+        addHistory(runLength);
+        if (!runColor) result += countFinderLike() * PENALTY_FINDER_LIKE;
+        runColor = getModule(i);
+        runLength = 1;
+      }
+    }
+    // The light border after the symbol ends the last run
+    if (runColor) {
+      addHistory(runLength);
+      runLength = 0;
+    }
+    addHistory(runLength + size);
+    result += countFinderLike() * PENALTY_FINDER_LIKE;
+  };
+  for (let i = 0; i < size; i++) {
+    scoreLine(x => modules[i][x]);
+    scoreLine(y => modules[y][i]);
+  }
+
+  let darkCount = 0;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (modules[y][x]) darkCount++;
+      if (x < size - 1 && y < size - 1) {
+        const color = modules[y][x];
+        if (color === modules[y][x + 1] && color === modules[y + 1][x] && color === modules[y + 1][x + 1]) result += PENALTY_BLOCK;
+      }
+    }
+  }
+  const total = size * size;
+  result += (Math.ceil(Math.abs(darkCount * 20 - total * 10) / total) - 1) * PENALTY_BALANCE;
+  return result;
+};
+
+/**
+ * Encodes text as a QR code, in byte mode with the text as UTF-8, using the
+ * smallest version that fits.
+ * @param text The text to encode, such as a URL.
+ * @param level How much of the symbol can be damaged and still be read: about 7% for L, 15% for M, 25% for Q and 30% for H.
+ * @returns The dark modules by row, without the quiet zone, or null if the text is too long for a QR code.
+ */
+export const encodeQrCode = (text: string, level: QrErrorCorrection): boolean[][] | null => {
+  const bytes = Array.from(new TextEncoder().encode(text));
+  let version = 1;
+  for (; version <= MAX_VERSION; version++) {
+    const countBits = version <= 9 ? 8 : 16;
+    if (4 + countBits + bytes.length * 8 <= getDataCodewords(version, level) * 8) break;
+  }
+  if (version > MAX_VERSION) return null;
+
+  const bits: number[] = [];
+  const appendBits = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  appendBits(BYTE_MODE, 4);
+  appendBits(bytes.length, version <= 9 ? 8 : 16);
+  bytes.forEach(byte => appendBits(byte, 8));
+  // A terminator of up to four zeros, then zeros up to a whole byte, then alternating pad bytes
+  const capacity = getDataCodewords(version, level) * 8;
+  appendBits(0, Math.min(4, capacity - bits.length));
+  appendBits(0, (8 - bits.length % 8) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) appendBits(pad, 8);
+
+  const data: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    data.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+
+  const size = version * 4 + 17;
+  const symbol: QrSymbol = {
+    version,
+    size,
+    modules: Array.from({ length: size }, () => new Array<boolean>(size).fill(false)),
+    isFunction: Array.from({ length: size }, () => new Array<boolean>(size).fill(false)),
+  };
+  drawFunctionPatterns(symbol, level);
+  drawCodewords(symbol, addErrorCorrection(data, version, level));
+  // Every mask is tried, and the one that is easiest to scan is kept
+  let bestMask = 0;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    applyMask(symbol, mask);
+    drawFormatBits(symbol, level, mask);
+    const penalty = getPenalty(symbol);
+    if (penalty < bestPenalty) {
+      bestMask = mask;
+      bestPenalty = penalty;
+    }
+    applyMask(symbol, mask);
+  }
+  applyMask(symbol, bestMask);
+  drawFormatBits(symbol, level, bestMask);
+  return symbol.modules;
+};
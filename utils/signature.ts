@@ -0,0 +1,90 @@
+import { SignatureStroke, Size, StrokePoint } from '../types';
+
+const CONTENT_MARGIN = 2;
+
+const format = (value: number) => Number(value.toFixed(2));
+
+/**
+ * Builds the outline of a variable-width stroke as a closed SVG path, so it can
+ * be filled both in the preview and in the PDF. The ends get round caps.
+ * Coordinates are scaled after the outline is computed, which lets the same
+ * stroke be stretched to a box with a different aspect ratio.
+ * @param points The centerline of the stroke with the pen width at each point.
+ * @param scaleX The horizontal scale applied to the outline.
+ * @param scaleY The vertical scale applied to the outline.
+ */
+export const strokeToOutlinePath = (points: StrokePoint[], scaleX = 1, scaleY = 1): string => {
+  if (points.length === 0) return '';
+
+  if (points.length === 1) {
+    const { x, y, width } = points[0];
+    const rx = format(width / 2 * scaleX);
+    const ry = format(width / 2 * scaleY);
+    return `M ${format((x - width / 2) * scaleX)} ${format(y * scaleY)} a ${rx} ${ry} 0 1 0 ${format(rx * 2)} 0 a ${rx} ${ry} 0 1 0 ${format(-rx * 2)} 0 Z`;
+  }
+
+  const left: { x: number; y: number }[] = [];
+  const right: { x: number; y: number }[] = [];
+  points.forEach((point, index) => {
+    // Use the direction between the neighbours for a smooth normal along the stroke
+    const previous = points[Math.max(0, index - 1)];
+    const next = points[Math.min(points.length - 1, index + 1)];
+    const dx = next.x - previous.x;
+    const dy = next.y - previous.y;
+    const length = Math.hypot(dx, dy) || 1;
+    const normalX = -dy / length * point.width / 2;
+    const normalY = dx / length * point.width / 2;
+    left.push({ x: point.x + normalX, y: point.y + normalY });
+    right.push({ x: point.x - normalX, y: point.y - normalY });
+  });
+
+  const toPoint = (p: { x: number; y: number }) => `${format(p.x * scaleX)} ${format(p.y * scaleY)}`;
+  const cap = (width: number, to: { x: number; y: number }) =>
+    `A ${format(width / 2 * scaleX)} ${format(width / 2 * scaleY)} 0 0 0 ${toPoint(to)}`;
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  return [
+    `M ${toPoint(left[0])}`,
+    ...left.slice(1).map(p => `L ${toPoint(p)}`),
+    cap(last.width, right[right.length - 1]),
+    ...right.slice(0, -1).reverse().map(p => `L ${toPoint(p)}`),
+    cap(first.width, left[0]),
+    'Z',
+  ].join(' ');
+};
+
+/**
+ * Combines the strokes of each color into one path, so overlapping strokes of a
+ * semi-transparent signature don't darken where they cross.
+ * @returns One path per color, scaled to the given factors.
+ */
+export const strokesToPathsByColor = (strokes: SignatureStroke[], scaleX = 1, scaleY = 1): { color: string; path: string }[] => {
+  const paths = new Map<string, string[]>();
+  for (const stroke of strokes) {
+    const path = strokeToOutlinePath(stroke.points, scaleX, scaleY);
+    if (!path) continue;
+    paths.set(stroke.color, [...(paths.get(stroke.color) ?? []), path]);
+  }
+  return Array.from(paths, ([color, parts]) => ({ color, path: parts.join(' ') }));
+};
+
+/**
+ * Crops strokes to their bounding box, including the pen width and a small margin.
+ * @param strokes The strokes in pad coordinates.
+ * @returns The strokes moved to start at the origin, and the size of their content.
+ */
+export const normalizeStrokes = (strokes: SignatureStroke[]): { strokes: SignatureStroke[]; contentSize: Size } => {
+  const allPoints = strokes.flatMap(stroke => stroke.points);
+  const minX = Math.min(...allPoints.map(p => p.x - p.width / 2)) - CONTENT_MARGIN;
+  const minY = Math.min(...allPoints.map(p => p.y - p.width / 2)) - CONTENT_MARGIN;
+  const maxX = Math.max(...allPoints.map(p => p.x + p.width / 2)) + CONTENT_MARGIN;
+  const maxY = Math.max(...allPoints.map(p => p.y + p.width / 2)) + CONTENT_MARGIN;
+  return {
+    strokes: strokes.map(stroke => ({
+      ...stroke,
+      points: stroke.points.map(p => ({ ...p, x: p.x - minX, y: p.y - minY })),
+    })),
+    contentSize: { width: maxX - minX, height: maxY - minY },
+  };
+};
@@ -0,0 +1,241 @@
+import { ImageInfo, LibraryStamp, PlacementAnchor, SignatureStroke, Size, StampContent, StrokePoint, VectorShape } from '../types';
+import { fitToSide } from './imageInfo';
+import { PLACEMENT_ANCHORS } from './placement';
+import { strokesToPathsByColor } from './signature';
+
+const DB_NAME = 'pdf-image-merger';
+const DB_VERSION = 1;
+const STORE_NAME = 'stamps';
+const EXPORT_FORMAT = 'pdf-image-merger-stamps';
+const EXPORT_VERSION = 1;
+const THUMBNAIL_MAX_SIDE = 96;
+
+/** The data transfer type used when a library stamp is dragged onto the page. */
+export const STAMP_DRAG_TYPE = 'application/x-pdf-image-merger-stamp';
+
+/** A stamp as written to an export file, with its image or SVG file inlined as a data URL. */
+type SerializedStamp = Omit<LibraryStamp, 'content'> & {
+  content:
+    | Extract<StampContent, { kind: 'drawing' }>
+    | (Omit<Extract<StampContent, { kind: 'image' }>, 'blob'> & { blob: string })
+    | (Omit<Extract<StampContent, { kind: 'vector' }>, 'blob'> & { blob: string });
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    };
+    dbPromise = requestToPromise(request);
+    // Let the next call try again, e.g. after the user allowed storage
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return requestToPromise(run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+};
+
+/** Returns every stamp in the library, oldest first. */
+export const listStamps = async (): Promise<LibraryStamp[]> => {
+  const stamps = await withStore<LibraryStamp[]>('readonly', store => store.getAll());
+  return stamps.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const getStamp = (id: string): Promise<LibraryStamp | undefined> => {
+  return withStore<LibraryStamp | undefined>('readonly', store => store.get(id));
+};
+
+/** Adds a stamp to the library, replacing any stamp with the same id. */
+export const saveStamp = async (stamp: LibraryStamp): Promise<void> => {
+  await withStore('readwrite', store => store.put(stamp));
+};
+
+export const deleteStamp = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+};
+
+const loadImage = (blob: Blob): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = (e) => {
+      URL.revokeObjectURL(url);
+      reject(e);
+    };
+    img.src = url;
+  });
+};
+
+/**
+ * Renders a small preview of a stamp's content.
+ * @returns A PNG data URL no larger than THUMBNAIL_MAX_SIDE on either side.
+ */
+export const createThumbnail = async (content: StampContent): Promise<string> => {
+  const contentSize = content.kind === 'image' ? content.imageInfo.naturalSize : content.contentSize;
+  const size = fitToSide(contentSize, THUMBNAIL_MAX_SIDE);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(size.width));
+  canvas.height = Math.max(1, Math.round(size.height));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+
+  if (content.kind === 'image') {
+    ctx.drawImage(await loadImage(content.blob), 0, 0, canvas.width, canvas.height);
+  } else if (content.kind === 'vector') {
+    for (const shape of content.shapes) {
+      ctx.setTransform(canvas.width / contentSize.width, 0, 0, canvas.height / contentSize.height, 0, 0);
+      ctx.transform(...shape.transform);
+      const path = new Path2D(shape.path);
+      if (shape.fill) {
+        ctx.globalAlpha = shape.fillOpacity;
+        ctx.fillStyle = shape.fill;
+        ctx.fill(path);
+      }
+      if (shape.stroke) {
+        ctx.globalAlpha = shape.strokeOpacity;
+        ctx.strokeStyle = shape.stroke;
+        ctx.lineWidth = shape.strokeWidth;
+        ctx.lineCap = shape.lineCap;
+        ctx.lineJoin = shape.lineJoin;
+        ctx.setLineDash(shape.dashArray);
+        ctx.lineDashOffset = shape.dashOffset;
+        ctx.stroke(path);
+      }
+    }
+  } else {
+    ctx.scale(canvas.width / contentSize.width, canvas.height / contentSize.height);
+    for (const { color, path } of strokesToPathsByColor(content.strokes)) {
+      ctx.fillStyle = color;
+      ctx.fill(new Path2D(path));
+    }
+  }
+  return canvas.toDataURL('image/png');
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+/**
+ * Writes the whole library into a single JSON file, with images and SVGs inlined, so it
+ * can be moved to another browser or machine.
+ */
+export const exportLibrary = async (): Promise<Blob> => {
+  const stamps = await listStamps();
+  const serialized: SerializedStamp[] = await Promise.all(stamps.map(async stamp => (
+    stamp.content.kind === 'image' || stamp.content.kind === 'vector'
+      ? { ...stamp, content: { ...stamp.content, blob: await blobToDataUrl(stamp.content.blob) } }
+      : { ...stamp, content: stamp.content }
+  )));
+  const data = { format: EXPORT_FORMAT, version: EXPORT_VERSION, stamps: serialized };
+  return new Blob([JSON.stringify(data)], { type: 'application/json' });
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isHexColor = (value: unknown): value is string => typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+
+const isSize = (value: unknown): value is Size => isRecord(value) && isNumber(value.width) && isNumber(value.height);
+
+// Only inline images are accepted for stamps and their thumbnails, so importing a file never fetches anything from the network
+const isInlineImage = (value: unknown): value is string => typeof value === 'string' && value.startsWith('data:image/');
+
+const isImageInfo = (value: unknown): value is ImageInfo => (
+  isRecord(value) && isSize(value.naturalSize) && isRecord(value.dpi) && isNumber(value.dpi.x) && isNumber(value.dpi.y)
+);
+
+const isStrokePoint = (value: unknown): value is StrokePoint => (
+  isRecord(value) && isNumber(value.x) && isNumber(value.y) && isNumber(value.width)
+);
+
+const isSignatureStroke = (value: unknown): value is SignatureStroke => (
+  isRecord(value) && isHexColor(value.color) && Array.isArray(value.points) && value.points.every(isStrokePoint)
+);
+
+const isVectorShape = (value: unknown): value is VectorShape => (
+  isRecord(value)
+  && typeof value.path === 'string'
+  && Array.isArray(value.transform) && value.transform.length === 6 && value.transform.every(isNumber)
+  && (value.fill === null || isHexColor(value.fill))
+  && (value.stroke === null || isHexColor(value.stroke))
+  && isNumber(value.strokeWidth)
+  && (value.lineCap === 'butt' || value.lineCap === 'round' || value.lineCap === 'square')
+  && (value.lineJoin === 'miter' || value.lineJoin === 'round' || value.lineJoin === 'bevel')
+  && Array.isArray(value.dashArray) && value.dashArray.every(isNumber)
+  && isNumber(value.dashOffset)
+  && isNumber(value.fillOpacity)
+  && isNumber(value.strokeOpacity)
+);
+
+const isSerializedContent = (content: unknown): content is SerializedStamp['content'] => {
+  if (!isRecord(content)) return false;
+  switch (content.kind) {
+    case 'image':
+      return isInlineImage(content.blob) && isImageInfo(content.imageInfo);
+    case 'drawing':
+      return Array.isArray(content.strokes) && content.strokes.every(isSignatureStroke) && isSize(content.contentSize);
+    case 'vector':
+      return isInlineImage(content.blob) && Array.isArray(content.shapes) && content.shapes.every(isVectorShape)
+        && isSize(content.contentSize);
+    default:
+      return false;
+  }
+};
+
+const isSerializedStamp = (value: unknown): value is SerializedStamp => (
+  isRecord(value)
+  && typeof value.id === 'string'
+  && typeof value.name === 'string'
+  && typeof value.createdAt === 'number'
+  && isInlineImage(value.thumbnail)
+  && PLACEMENT_ANCHORS.includes(value.defaultAnchor as PlacementAnchor)
+  && isSize(value.defaultSize)
+  && isSerializedContent(value.content)
+);
+
+/**
+ * Adds the stamps from an export file to the library. Stamps that are already in
+ * the library are replaced, so importing the same file twice doesn't duplicate them.
+ * @returns The number of imported stamps.
+ * @throws If the file is not a library export.
+ */
+export const importLibrary = async (file: File): Promise<number> => {
+  const data: unknown = JSON.parse(await file.text());
+  if (!isRecord(data) || data.format !== EXPORT_FORMAT || !Array.isArray(data.stamps) || !data.stamps.every(isSerializedStamp)) {
+    throw new Error('Not a stamp library export');
+  }
+  const stamps: SerializedStamp[] = data.stamps;
+  for (const stamp of stamps) {
+    const content: StampContent = stamp.content.kind === 'image' || stamp.content.kind === 'vector'
+      ? { ...stamp.content, blob: await (await fetch(stamp.content.blob)).blob() }
+      : stamp.content;
+    await saveStamp({ ...stamp, content });
+  }
+  return stamps.length;
+};
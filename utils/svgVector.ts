@@ -0,0 +1,184 @@
+import { Size, VectorShape } from '../types';
+
+// Elements that draw something the vector import can't reproduce, or that could run code or load resources
+const UNSUPPORTED_ELEMENTS = new Set(['text', 'image', 'use', 'foreignObject', 'script', 'svg', 'switch', 'iframe', 'video', 'audio', 'canvas']);
+// Elements that never render by themselves; their contents are only referenced by other elements
+const NON_RENDERED_ELEMENTS = new Set([
+  'defs', 'symbol', 'clipPath', 'mask', 'marker', 'pattern', 'linearGradient', 'radialGradient', 'filter',
+  'style', 'title', 'desc', 'metadata',
+]);
+// Animations are dropped, so the SVG is imported as it looks before they start
+const ANIMATION_ELEMENTS = ['animate', 'animateMotion', 'animateTransform', 'set'];
+
+const format = (value: number) => Number(value.toFixed(3));
+
+/** Parses a computed color such as "rgb(255, 0, 0)" into a hex color and its alpha. */
+const parseComputedColor = (value: string): { hex: string; alpha: number } | null => {
+  const match = /^rgba?\(([^)]+)\)$/.exec(value.trim());
+  if (!match) return null;
+  const [r, g, b, alpha = 1] = match[1].split(/[\s,/]+/).filter(Boolean).map(Number);
+  if ([r, g, b, alpha].some(Number.isNaN)) return null;
+  const hex = [r, g, b].map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('');
+  return { hex: `#${hex}`, alpha };
+};
+
+/** Converts a basic shape into path data, in the shape's own coordinates. */
+const getShapePath = (element: SVGElement): string | null => {
+  if (element instanceof SVGPathElement) {
+    return element.getAttribute('d');
+  }
+  if (element instanceof SVGRectElement) {
+    const x = element.x.baseVal.value;
+    const y = element.y.baseVal.value;
+    const width = element.width.baseVal.value;
+    const height = element.height.baseVal.value;
+    if (width <= 0 || height <= 0) return null;
+    // A missing radius takes the value of the other one, as in the SVG spec
+    const rxAttribute = element.hasAttribute('rx') ? element.rx.baseVal.value : null;
+    const ryAttribute = element.hasAttribute('ry') ? element.ry.baseVal.value : null;
+    const rx = Math.min(width / 2, rxAttribute ?? ryAttribute ?? 0);
+    const ry = Math.min(height / 2, ryAttribute ?? rxAttribute ?? 0);
+    if (rx <= 0 || ry <= 0) {
+      return `M ${format(x)} ${format(y)} H ${format(x + width)} V ${format(y + height)} H ${format(x)} Z`;
+    }
+    const arc = (toX: number, toY: number) => `A ${format(rx)} ${format(ry)} 0 0 1 ${format(toX)} ${format(toY)}`;
+    return [
+      `M ${format(x + rx)} ${format(y)}`,
+      `H ${format(x + width - rx)}`, arc(x + width, y + ry),
+      `V ${format(y + height - ry)}`, arc(x + width - rx, y + height),
+      `H ${format(x + rx)}`, arc(x, y + height - ry),
+      `V ${format(y + ry)}`, arc(x + rx, y),
+      'Z',
+    ].join(' ');
+  }
+  if (element instanceof SVGCircleElement || element instanceof SVGEllipseElement) {
+    const cx = element.cx.baseVal.value;
+    const cy = element.cy.baseVal.value;
+    const rx = element instanceof SVGCircleElement ? element.r.baseVal.value : element.rx.baseVal.value;
+    const ry = element instanceof SVGCircleElement ? element.r.baseVal.value : element.ry.baseVal.value;
+    if (rx <= 0 || ry <= 0) return null;
+    return `M ${format(cx - rx)} ${format(cy)} A ${format(rx)} ${format(ry)} 0 1 0 ${format(cx + rx)} ${format(cy)} `
+      + `A ${format(rx)} ${format(ry)} 0 1 0 ${format(cx - rx)} ${format(cy)} Z`;
+  }
+  if (element instanceof SVGLineElement) {
+    return `M ${format(element.x1.baseVal.value)} ${format(element.y1.baseVal.value)} `
+      + `L ${format(element.x2.baseVal.value)} ${format(element.y2.baseVal.value)}`;
+  }
+  if (element instanceof SVGPolylineElement || element instanceof SVGPolygonElement) {
+    const points = Array.from({ length: element.points.numberOfItems }, (_, i) => element.points.getItem(i));
+    if (points.length === 0) return null;
+    const path = points.map(({ x, y }, i) => `${i === 0 ? 'M' : 'L'} ${format(x)} ${format(y)}`).join(' ');
+    return element instanceof SVGPolygonElement ? `${path} Z` : path;
+  }
+  return null;
+};
+
+/**
+ * Reads the size of an SVG from its viewBox, or from its width and height.
+ * @returns The top-left of the drawing and its size, or null if the SVG has no usable size.
+ */
+const getViewBox = (svg: Element): { x: number; y: number; width: number; height: number } | null => {
+  const viewBox = svg.getAttribute('viewBox')?.trim().split(/[\s,]+/).map(Number);
+  if (viewBox?.length === 4 && viewBox.every(Number.isFinite) && viewBox[2] > 0 && viewBox[3] > 0) {
+    return { x: viewBox[0], y: viewBox[1], width: viewBox[2], height: viewBox[3] };
+  }
+  // Percentages depend on where the SVG is shown, so they don't give it a size of its own
+  const width = /%/.test(svg.getAttribute('width') ?? '%') ? NaN : parseFloat(svg.getAttribute('width')!);
+  const height = /%/.test(svg.getAttribute('height') ?? '%') ? NaN : parseFloat(svg.getAttribute('height')!);
+  return width > 0 && height > 0 ? { x: 0, y: 0, width, height } : null;
+};
+
+/**
+ * Converts an SVG into vector shapes with resolved colors, so it can be drawn into
+ * a PDF as paths. The SVG is laid out in a hidden, isolated shadow tree to let the
+ * browser resolve its styles, units and transforms.
+ * @param file The SVG file.
+ * @returns The shapes and the size of the drawing, or null if the SVG uses features
+ * that can't be kept as vectors (text, embedded images, gradients, clipping, masks,
+ * filters or even-odd fills), in which case it should be rasterized instead.
+ */
+export const parseSvg = async (file: File): Promise<{ shapes: VectorShape[]; contentSize: Size } | null> => {
+  const doc = new DOMParser().parseFromString(await file.text(), 'image/svg+xml');
+  const root = doc.documentElement;
+  if (root.localName !== 'svg' || doc.getElementsByTagName('parsererror').length > 0) return null;
+
+  const elements = Array.from(root.querySelectorAll('*'));
+  if (elements.some(element => UNSUPPORTED_ELEMENTS.has(element.localName))) return null;
+  if (elements.some(element => element.localName === 'style' && /@import|url\(/i.test(element.textContent ?? ''))) return null;
+  root.querySelectorAll(ANIMATION_ELEMENTS.join(',')).forEach(element => element.remove());
+  // The document is inert, but event handlers would run once it is inserted into the page
+  [root, ...elements].forEach(element => {
+    Array.from(element.attributes)
+      .filter(attribute => attribute.name.toLowerCase().startsWith('on'))
+      .forEach(attribute => element.removeAttribute(attribute.name));
+  });
+
+  const viewBox = getViewBox(root);
+  if (!viewBox) return null;
+  // Lays the drawing out at one pixel per viewBox unit, starting at the origin
+  root.setAttribute('viewBox', `${viewBox.x} ${viewBox.y} ${viewBox.width} ${viewBox.height}`);
+  root.setAttribute('width', String(viewBox.width));
+  root.setAttribute('height', String(viewBox.height));
+  root.setAttribute('preserveAspectRatio', 'none');
+
+  // A shadow root keeps the SVG's stylesheets from reaching the page, and the page's from reaching the SVG
+  const host = document.createElement('div');
+  host.style.cssText = 'all: initial; display: block; position: fixed; left: 0; top: 0; width: 0; height: 0; overflow: hidden; opacity: 0; pointer-events: none;';
+  const shadow = host.attachShadow({ mode: 'closed' });
+  const svg = document.importNode(root, true) as unknown as SVGSVGElement;
+  shadow.appendChild(svg);
+  document.body.appendChild(host);
+
+  try {
+    const shapes: VectorShape[] = [];
+    const collect = (element: Element, groupOpacity: number): boolean => {
+      if (NON_RENDERED_ELEMENTS.has(element.localName) || !(element instanceof SVGElement)) return true;
+      const style = getComputedStyle(element);
+      if (style.display === 'none') return true;
+      if (style.clipPath !== 'none' || style.mask !== 'none' || style.filter !== 'none') return false;
+      const opacity = groupOpacity * Number(style.opacity);
+
+      if (!(element instanceof SVGGraphicsElement) || element instanceof SVGGElement || element instanceof SVGAElement || element === svg) {
+        return Array.from(element.children).every(child => collect(child, opacity));
+      }
+
+      const path = getShapePath(element);
+      if (!path || style.visibility !== 'visible') return true;
+      if (['marker-start', 'marker-mid', 'marker-end'].some(name => style.getPropertyValue(name) !== 'none')) return false;
+
+      const fill = style.fill === 'none' ? null : parseComputedColor(style.fill);
+      const stroke = style.stroke === 'none' ? null : parseComputedColor(style.stroke);
+      // Paint servers such as gradients and patterns can't be expressed as a single color
+      if ((style.fill !== 'none' && !fill) || (style.stroke !== 'none' && !stroke)) return false;
+      // drawSvgPath always fills with the nonzero rule
+      if (fill && style.fillRule === 'evenodd') return false;
+      const strokeWidth = parseFloat(style.strokeWidth) || 0;
+      if (!fill && (!stroke || strokeWidth <= 0)) return true;
+
+      const ctm = (element as SVGGraphicsElement).getCTM();
+      if (!ctm) return true;
+      const dashArray = style.strokeDasharray === 'none'
+        ? []
+        : style.strokeDasharray.split(/[\s,]+/).map(parseFloat).filter(Number.isFinite);
+      shapes.push({
+        path,
+        transform: [ctm.a, ctm.b, ctm.c, ctm.d, ctm.e, ctm.f],
+        fill: fill?.hex ?? null,
+        stroke: stroke && strokeWidth > 0 ? stroke.hex : null,
+        strokeWidth,
+        lineCap: style.strokeLinecap === 'round' || style.strokeLinecap === 'square' ? style.strokeLinecap : 'butt',
+        lineJoin: style.strokeLinejoin === 'round' || style.strokeLinejoin === 'bevel' ? style.strokeLinejoin : 'miter',
+        dashArray: dashArray.some(length => length > 0) ? dashArray : [],
+        dashOffset: parseFloat(style.strokeDashoffset) || 0,
+        fillOpacity: opacity * Number(style.fillOpacity) * (fill?.alpha ?? 1),
+        strokeOpacity: opacity * Number(style.strokeOpacity) * (stroke?.alpha ?? 1),
+      });
+      return true;
+    };
+
+    if (!collect(svg, 1) || shapes.length === 0) return null;
+    return { shapes, contentSize: { width: viewBox.width, height: viewBox.height } };
+  } finally {
+    host.remove();
+  }
+};
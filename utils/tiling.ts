@@ -0,0 +1,62 @@
+import { Point, Size, TilingSettings } from '../types';
+
+// A small box with no spacing on a large page would otherwise yield tens of thousands of copies
+const MAX_TILES = 2500;
+
+/**
+ * Works out where the copies of a tiled layer go on a page. The rows run in the
+ * direction the box is turned, starting from the box itself, and only copies that
+ * reach onto the page are returned.
+ * @param position The top-left corner of the unrotated box, in points from the top-left of the page.
+ * @param size The size of the box, in points.
+ * @param rotation The clockwise rotation of the box around its center, in degrees.
+ * @param pageSize The size of the page as displayed, in points.
+ * @returns The top-left corner of every copy, including the box itself.
+ */
+export const getTilePositions = (position: Point, size: Size, rotation: number, pageSize: Size, tiling: TilingSettings): Point[] => {
+  const radians = rotation * Math.PI / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const stepAlong = size.width + Math.max(0, tiling.spacing);
+  const stepAcross = size.height + Math.max(0, tiling.spacing);
+  const center = { x: position.x + size.width / 2, y: position.y + size.height / 2 };
+  // A copy whose center is further than this outside the page can't reach onto it
+  const reach = Math.hypot(size.width, size.height) / 2;
+  const corners = [
+    { x: -reach, y: -reach },
+    { x: pageSize.width + reach, y: -reach },
+    { x: -reach, y: pageSize.height + reach },
+    { x: pageSize.width + reach, y: pageSize.height + reach },
+  ];
+  // The columns and rows that can reach the page, from the corners projected onto the directions they run in
+  const columns = corners.map(corner => ((corner.x - center.x) * cos + (corner.y - center.y) * sin) / stepAlong);
+  const rows = corners.map(corner => ((corner.y - center.y) * cos - (corner.x - center.x) * sin) / stepAcross);
+  const [firstRow, lastRow] = tiling.pattern === 'diagonal' ? [0, 0] : [Math.floor(Math.min(...rows)), Math.ceil(Math.max(...rows))];
+
+  const positions: Point[] = [];
+  for (let row = firstRow; row <= lastRow; row++) {
+    for (let column = Math.floor(Math.min(...columns)); column <= Math.ceil(Math.max(...columns)); column++) {
+      const x = center.x + column * stepAlong * cos - row * stepAcross * sin;
+      const y = center.y + column * stepAlong * sin + row * stepAcross * cos;
+      if (x < -reach || y < -reach || x > pageSize.width + reach || y > pageSize.height + reach) continue;
+      positions.push({ x: x - size.width / 2, y: y - size.height / 2 });
+      if (positions.length === MAX_TILES) return positions;
+    }
+  }
+  return positions;
+};
+
+/**
+ * Centers a box on a page and turns it to run along the diagonal from the
+ * bottom-left to the top-right corner, where a diagonal watermark usually goes.
+ * @param size The size of the box, in points.
+ * @param pageSize The size of the page as displayed, in points.
+ */
+export const getDiagonalPlacement = (size: Size, pageSize: Size): { position: Point; rotation: number } => {
+  const angle = Math.atan2(pageSize.height, pageSize.width) * 180 / Math.PI;
+  return {
+    position: { x: (pageSize.width - size.width) / 2, y: (pageSize.height - size.height) / 2 },
+    // Rotations are clockwise on screen, so rising to the right is a negative angle
+    rotation: 360 - angle,
+  };
+};
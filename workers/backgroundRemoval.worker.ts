@@ -0,0 +1,47 @@
+import { BackgroundRemovalSettings } from '../types';
+import { keyOutBackground } from '../utils/chromaKey';
+
+export interface BackgroundRemovalRequest {
+  id: number;
+  image: Blob;
+  settings: BackgroundRemovalSettings;
+  /** Downscales the image so its longer side is at most this long, for quick previews. */
+  maxSide?: number;
+  /** 'png' encodes the result as a file; 'pixels' returns the raw pixels to draw. */
+  output: 'png' | 'pixels';
+}
+
+export type BackgroundRemovalResponse =
+  | { id: number; blob: Blob }
+  | { id: number; pixels: ImageData }
+  | { id: number; error: string };
+
+// Decoding, keying and encoding all happen here, so large photos don't block the page
+self.onmessage = async (event: MessageEvent<BackgroundRemovalRequest>) => {
+  const { id, image, settings, maxSide, output } = event.data;
+  try {
+    const bitmap = await createImageBitmap(image);
+    const scale = maxSide ? Math.min(1, maxSide / Math.max(bitmap.width, bitmap.height)) : 1;
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+
+    const imageData = ctx.getImageData(0, 0, width, height);
+    keyOutBackground(imageData.data, width, height, settings);
+
+    if (output === 'pixels') {
+      self.postMessage({ id, pixels: imageData } satisfies BackgroundRemovalResponse, { transfer: [imageData.data.buffer] });
+    } else {
+      ctx.putImageData(imageData, 0, 0);
+      // Always output PNG to keep the transparency
+      const blob = await canvas.convertToBlob({ type: 'image/png' });
+      self.postMessage({ id, blob } satisfies BackgroundRemovalResponse);
+    }
+  } catch (err) {
+    self.postMessage({ id, error: err instanceof Error ? err.message : String(err) } satisfies BackgroundRemovalResponse);
+  }
+};